@@ -2,24 +2,50 @@ import { useState } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { hasToken, clearToken } from './lib/api';
 import { SiteContext, useSiteProvider } from './hooks/useSites';
+import { ToastContext, useToastProvider } from './hooks/useToast';
+import { AuthContext } from './hooks/useAuth';
 import AuthModal from './components/AuthModal';
 import Layout from './components/Layout';
+import Toaster from './components/Toaster';
+import ErrorNotice from './components/ErrorNotice';
 import DashboardPage from './pages/DashboardPage';
 import ContentListPage from './pages/ContentListPage';
 import ContentDetailPage from './pages/ContentDetailPage';
 import TopicsPage from './pages/TopicsPage';
 import RunsPage from './pages/RunsPage';
+import RunDetailPage from './pages/RunDetailPage';
+import RunComparePage from './pages/RunComparePage';
+import CostsPage from './pages/CostsPage';
+import FailuresPage from './pages/FailuresPage';
+import PromptsPage from './pages/PromptsPage';
+import OverduePage from './pages/OverduePage';
+import CalendarPage from './pages/CalendarPage';
+import PublishedPage from './pages/PublishedPage';
 import ReviewPage from './pages/ReviewPage';
 import IdeasPage from './pages/IdeasPage';
 
 export default function App() {
   const [authed, setAuthed] = useState(hasToken());
   const siteProvider = useSiteProvider();
+  const toastProvider = useToastProvider();
 
-  if (!authed) {
-    return <AuthModal onAuth={() => { setAuthed(true); siteProvider.reload(); }} />;
-  }
+  const signOut = () => { clearToken(); setAuthed(false); };
+
+  return (
+    <AuthContext.Provider value={{ signOut }}>
+      <ToastContext.Provider value={toastProvider}>
+        {authed ? (
+          <AuthedApp siteProvider={siteProvider} onLogout={signOut} />
+        ) : (
+          <AuthModal onAuth={() => { setAuthed(true); siteProvider.reload(); }} />
+        )}
+        <Toaster />
+      </ToastContext.Provider>
+    </AuthContext.Provider>
+  );
+}
 
+function AuthedApp({ siteProvider, onLogout }: { siteProvider: ReturnType<typeof useSiteProvider>; onLogout: () => void }) {
   if (siteProvider.loading) {
     return (
       <div className="min-h-screen bg-[#fafafa] flex items-center justify-center">
@@ -35,9 +61,9 @@ export default function App() {
     return (
       <div className="min-h-screen bg-[#fafafa] flex items-center justify-center">
         <div className="text-center max-w-md">
-          <p className="text-red-500 text-sm mb-4">Failed to load: {siteProvider.error}</p>
-          <button 
-            onClick={() => { clearToken(); setAuthed(false); }}
+          <ErrorNotice error={siteProvider.error} onRetry={siteProvider.reload} />
+          <button
+            onClick={onLogout}
             className="text-sm text-gray-500 hover:text-gray-700 underline"
           >
             Try different token
@@ -51,13 +77,21 @@ export default function App() {
     <SiteContext.Provider value={siteProvider}>
       <BrowserRouter>
         <Routes>
-          <Route element={<Layout onLogout={() => { clearToken(); setAuthed(false); }} />}>
+          <Route element={<Layout onLogout={onLogout} />}>
             <Route path="/" element={<DashboardPage />} />
             <Route path="/content" element={<ContentListPage />} />
             <Route path="/content/:id" element={<ContentDetailPage />} />
             <Route path="/content/:id/review" element={<ReviewPage />} />
             <Route path="/topics" element={<TopicsPage />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/published" element={<PublishedPage />} />
             <Route path="/runs" element={<RunsPage />} />
+            <Route path="/runs/compare" element={<RunComparePage />} />
+            <Route path="/runs/:runId" element={<RunDetailPage />} />
+            <Route path="/costs" element={<CostsPage />} />
+            <Route path="/failures" element={<FailuresPage />} />
+            <Route path="/prompts" element={<PromptsPage />} />
+            <Route path="/overdue" element={<OverduePage />} />
             <Route path="/ideas" element={<IdeasPage />} />
           </Route>
         </Routes>
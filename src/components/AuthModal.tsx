@@ -1,11 +1,14 @@
 import { useState } from 'react';
-import { setToken } from '../lib/api';
+import { setToken, verifyToken } from '../lib/api';
+import { ENVIRONMENTS, getEnvironment, getBaseUrl, setEnvironment, setBaseUrl } from '../lib/environments';
 
 interface Props {
   onAuth: () => void;
 }
 
 export default function AuthModal({ onAuth }: Props) {
+  const [envId, setEnvId] = useState(() => getEnvironment().id);
+  const [baseUrl, setBaseUrlInput] = useState(() => getBaseUrl(getEnvironment().id));
   const [passphrase, setPassphrase] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -16,19 +19,24 @@ export default function AuthModal({ onAuth }: Props) {
       setError('Please enter a passphrase');
       return;
     }
+    if (!baseUrl.trim()) {
+      setError('Please enter the API URL');
+      return;
+    }
     setLoading(true);
     setError('');
-    setToken(passphrase.trim());
-    // Test the passphrase
+    // Test the passphrase against the chosen environment before saving it
     try {
-      const res = await fetch('https://content-pipeline.roccobot.workers.dev/api/sites', {
-        headers: { Authorization: `Bearer ${passphrase.trim()}` },
-      });
+      const url = baseUrl.trim().replace(/\/+$/, '');
+      const res = await verifyToken(url, passphrase.trim());
       if (!res.ok) {
         setLoading(false);
         setError(`Invalid passphrase (${res.status})`);
         return;
       }
+      setEnvironment(envId);
+      setBaseUrl(envId, url);
+      setToken(passphrase.trim());
       onAuth();
     } catch (err: unknown) {
       setLoading(false);
@@ -49,6 +57,29 @@ export default function AuthModal({ onAuth }: Props) {
           <p className="text-sm text-gray-500 mt-1">Enter your passphrase to continue</p>
         </div>
         <form onSubmit={handleSubmit}>
+          <div className="flex gap-2 mb-3">
+            {ENVIRONMENTS.map((env) => (
+              <button
+                key={env.id}
+                type="button"
+                onClick={() => { setEnvId(env.id); setBaseUrlInput(getBaseUrl(env.id)); setError(''); }}
+                className={`flex-1 px-3 py-2 text-xs font-medium rounded-full border transition ${
+                  envId === env.id
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {env.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="url"
+            value={baseUrl}
+            onChange={(e) => { setBaseUrlInput(e.target.value); setError(''); }}
+            placeholder="API URL"
+            className="w-full px-4 py-2 mb-3 border border-gray-200 rounded-xl text-xs font-mono text-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent transition"
+          />
           <input
             type="password"
             value={passphrase}
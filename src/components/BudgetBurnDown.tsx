@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useSites } from '../hooks/useSites';
+import { useToast } from '../hooks/useToast';
+import { useBudget } from '../hooks/useBudget';
+import { updateSite } from '../lib/api';
+import type { Site } from '../lib/types';
+import { mergeSettings } from '../lib/siteSettings';
+import { formatMicros } from '../lib/costAnalytics';
+import type { BudgetStatus } from '../lib/budget';
+
+interface Props {
+  site: Site;
+}
+
+export default function BudgetBurnDown({ site }: Props) {
+  const { budget, status, runCostMicros, error, refetch } = useBudget(site);
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-sm font-medium text-gray-900">Monthly Budget</h2>
+        {budget && !editing && (
+          <button onClick={() => setEditing(true)} className="text-xs text-gray-400 hover:text-gray-600 transition">
+            Edit
+          </button>
+        )}
+      </div>
+
+      {editing || !budget ? (
+        <BudgetForm site={site} budget={budget} onDone={budget ? () => setEditing(false) : undefined} />
+      ) : status ? (
+        <BurnDown status={status} runCostMicros={runCostMicros} />
+      ) : error ? (
+        <p className="text-sm text-red-600">
+          Couldn't load this month's spend.{' '}
+          <button onClick={refetch} className="underline hover:no-underline">Retry</button>
+        </p>
+      ) : (
+        <div className="h-24 flex items-center justify-center">
+          <div className="w-5 h-5 border-2 border-gray-200 border-t-gray-800 rounded-full animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Burn-down
+// ============================================================
+
+function BurnDown({ status, runCostMicros }: { status: BudgetStatus; runCostMicros: number | null }) {
+  const { budgetMicros, spentMicros, remainingMicros, projectedMicros, dayOfMonth, daysInMonth, burn } = status;
+  const over = remainingMicros < 0;
+  const projectedOver = projectedMicros > budgetMicros;
+  const tone = over ? 'text-red-600' : projectedOver ? 'text-amber-600' : 'text-green-600';
+  const bar = over ? 'bg-red-500' : projectedOver ? 'bg-amber-500' : 'bg-gray-800';
+
+  // Remaining budget runs top to bottom, with room below zero when spend overshoots
+  const ceiling = Math.max(budgetMicros, spentMicros, projectedMicros);
+  const x = (day: number) => (day / daysInMonth) * 100;
+  const y = (spent: number) => (spent / ceiling) * 50;
+  const actual = [`0,${y(0)}`, ...burn.map((spent, i) => `${x(i + 1)},${y(spent)}`)].join(' ');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <div className="text-2xl font-semibold text-gray-900 tabular-nums">
+            {formatMicros(spentMicros)} <span className="text-sm font-normal text-gray-400">of {formatMicros(budgetMicros)}</span>
+          </div>
+          <div className={`text-xs mt-1 ${tone}`}>
+            {over
+              ? `${formatMicros(-remainingMicros)} over budget`
+              : `${formatMicros(remainingMicros)} left · on pace for ${formatMicros(projectedMicros)}`}
+          </div>
+        </div>
+        <div className="text-xs text-gray-500 text-right space-y-0.5">
+          <div>Day {dayOfMonth} of {daysInMonth}</div>
+          {runCostMicros !== null && (
+            <div>
+              ~{formatMicros(runCostMicros)} per run
+              {!over && runCostMicros > 0 && ` · ~${Math.floor(remainingMicros / runCostMicros)} runs left`}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+        <div className={`h-full ${bar}`} style={{ width: `${Math.min(spentMicros / budgetMicros, 1) * 100}%` }} />
+      </div>
+
+      <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-24 overflow-visible">
+        {/* Ideal: spending evenly lands on zero at month end */}
+        <line x1={0} y1={y(0)} x2={100} y2={y(budgetMicros)} stroke="#d1d5db" strokeWidth={0.6} strokeDasharray="2 1.5" vectorEffect="non-scaling-stroke" />
+        {/* Projection from today at the month's average daily rate */}
+        <line
+          x1={x(dayOfMonth)}
+          y1={y(spentMicros)}
+          x2={100}
+          y2={y(projectedMicros)}
+          className={projectedOver ? 'stroke-amber-400' : 'stroke-gray-300'}
+          strokeWidth={1}
+          strokeDasharray="1 1.5"
+          vectorEffect="non-scaling-stroke"
+        />
+        <line x1={0} y1={y(budgetMicros)} x2={100} y2={y(budgetMicros)} stroke="#fecaca" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        <polyline points={actual} fill="none" className={over ? 'stroke-red-500' : 'stroke-gray-800'} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span>Remaining budget, 1st → day {daysInMonth}</span>
+        <span>Dashed: even pace · dotted: current pace</span>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Budget form
+// ============================================================
+
+function BudgetForm({ site, budget, onDone }: { site: Site; budget: number | null; onDone?: () => void }) {
+  const { replaceSite } = useSites();
+  const { showToast, showError } = useToast();
+  const [value, setValue] = useState(budget ? String(budget) : '');
+  const [saving, setSaving] = useState(false);
+  const amount = Number(value);
+  const valid = Number.isFinite(amount) && amount > 0;
+
+  const save = async (monthlyBudgetUsd: number | null) => {
+    setSaving(true);
+    try {
+      replaceSite(await updateSite(site.id, { settings: mergeSettings(site, { monthly_budget_usd: monthlyBudgetUsd }) }));
+      showToast({ tone: 'success', title: monthlyBudgetUsd ? 'Budget saved' : 'Budget removed' });
+      onDone?.();
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't save budget" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (valid) save(amount); }}
+      className="space-y-3"
+    >
+      {!budget && (
+        <p className="text-sm text-gray-500">Set a monthly spend limit to track burn-down and get a warning before runs that would go over it.</p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400">$</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="Monthly budget"
+            aria-label="Monthly budget in USD"
+            className="w-40 text-sm border border-gray-200 rounded-lg pl-6 pr-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !valid}
+          className="px-3 py-1.5 text-sm font-medium bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 transition"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+        {onDone && (
+          <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition">
+            Cancel
+          </button>
+        )}
+        {budget && (
+          <button
+            type="button"
+            onClick={() => save(null)}
+            disabled={saving}
+            className="ml-auto text-xs text-red-500 hover:text-red-700 disabled:opacity-50 transition"
+          >
+            Remove budget
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
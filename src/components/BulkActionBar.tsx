@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { approveContent, rejectContent, updateContent, runPipeline } from '../lib/api';
+import { useBulkAction } from '../hooks/useBulkAction';
+import type { Content } from '../lib/types';
+import Dialog from './Dialog';
+import BulkProgress from './BulkProgress';
+
+type BulkKind = 'approve' | 'reject' | 'reschedule' | 'rerun';
+
+interface Props {
+  siteId: string;
+  selected: Content[];
+  onClear: () => void;
+}
+
+export default function BulkActionBar({ siteId, selected, onClear }: Props) {
+  const [dialog, setDialog] = useState<BulkKind | null>(null);
+  const bulk = useBulkAction();
+
+  const targets = selected.map((c) => ({ id: c.id, label: c.title || 'Untitled' }));
+  const byId = new Map(selected.map((c) => [c.id, c]));
+  const inReview = selected.filter((c) => c.stage === 'review').length;
+
+  const start = (label: string, action: (id: string) => Promise<unknown>) => {
+    setDialog(null);
+    bulk.run(label, targets, action);
+  };
+
+  const handleRerun = () => start('Re-run pipeline', async (id) => {
+    const topicId = byId.get(id)?.topic_id;
+    if (!topicId) throw new Error('No source topic to re-run from');
+    return runPipeline(topicId, siteId);
+  });
+
+  const handleDone = () => {
+    bulk.reset();
+    onClear();
+  };
+
+  return (
+    <>
+      <div className="sticky top-16 z-10 bg-gray-900 text-white rounded-xl px-4 py-2.5 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+        <button onClick={() => setDialog('approve')} className="px-3 py-1.5 text-xs font-medium bg-emerald-600 rounded-lg hover:bg-emerald-700 transition">
+          Approve
+        </button>
+        <button onClick={() => setDialog('reject')} className="px-3 py-1.5 text-xs font-medium bg-red-500 rounded-lg hover:bg-red-600 transition">
+          Reject
+        </button>
+        <button onClick={() => setDialog('reschedule')} className="px-3 py-1.5 text-xs font-medium bg-white/10 rounded-lg hover:bg-white/20 transition">
+          Reschedule
+        </button>
+        <button onClick={() => setDialog('rerun')} className="px-3 py-1.5 text-xs font-medium bg-white/10 rounded-lg hover:bg-white/20 transition">
+          Re-run
+        </button>
+        <div className="flex-1" />
+        <button onClick={onClear} className="text-xs text-gray-300 hover:text-white transition">
+          Clear
+        </button>
+      </div>
+
+      {dialog === 'approve' && (
+        <ApproveDialog
+          count={selected.length}
+          inReview={inReview}
+          onCancel={() => setDialog(null)}
+          onConfirm={(stage) => start(stage === 'published' ? 'Approve & publish' : 'Approve', (id) => approveContent(id, stage))}
+        />
+      )}
+      {dialog === 'reject' && (
+        <RejectDialog
+          count={selected.length}
+          inReview={inReview}
+          onCancel={() => setDialog(null)}
+          onConfirm={(stage, feedback) => start('Reject', (id) => rejectContent(id, stage, feedback))}
+        />
+      )}
+      {dialog === 'reschedule' && (
+        <RescheduleDialog
+          count={selected.length}
+          onCancel={() => setDialog(null)}
+          onConfirm={(at) => start('Reschedule', (id) => updateContent(id, { scheduled_publish_at: at }))}
+        />
+      )}
+      {dialog === 'rerun' && (
+        <Dialog title="Re-run pipeline" onCancel={() => setDialog(null)} onConfirm={handleRerun} confirmLabel={`Start ${selected.length} runs`}>
+          <p className="text-sm text-gray-500">
+            Starts a fresh pipeline run from each item's source topic. The existing content is left as it is.
+          </p>
+        </Dialog>
+      )}
+
+      {bulk.title && (
+        <BulkProgress
+          title={bulk.title}
+          items={bulk.items}
+          running={bulk.running}
+          onRetryFailed={bulk.retryFailed}
+          onDone={handleDone}
+        />
+      )}
+    </>
+  );
+}
+
+// ============================================================
+// Dialogs
+// ============================================================
+
+function ReviewOnlyNote({ count, inReview }: { count: number; inReview: number }) {
+  if (inReview === count) return null;
+  return (
+    <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+      {count - inReview} of the selected items {count - inReview === 1 ? 'is' : 'are'} not in review and will likely be refused.
+    </p>
+  );
+}
+
+function StagePills<S extends string>({ stages, value, onChange }: { stages: readonly S[]; value: S; onChange: (stage: S) => void }) {
+  return (
+    <div className="flex gap-2">
+      {stages.map((stage) => (
+        <button
+          key={stage}
+          type="button"
+          onClick={() => onChange(stage)}
+          className={`px-4 py-2 text-sm font-medium rounded-full border transition capitalize ${
+            value === stage ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          {stage}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ApproveDialogProps {
+  count: number;
+  inReview: number;
+  onCancel: () => void;
+  onConfirm: (stage: 'scheduled' | 'published') => void;
+}
+
+function ApproveDialog({ count, inReview, onCancel, onConfirm }: ApproveDialogProps) {
+  const [stage, setStage] = useState<'scheduled' | 'published'>('scheduled');
+  return (
+    <Dialog title={`Approve ${count} items`} confirmLabel="Approve" onCancel={onCancel} onConfirm={() => onConfirm(stage)}>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-2">Move to</label>
+        <StagePills stages={['scheduled', 'published'] as const} value={stage} onChange={setStage} />
+      </div>
+      <ReviewOnlyNote count={count} inReview={inReview} />
+    </Dialog>
+  );
+}
+
+interface RejectDialogProps {
+  count: number;
+  inReview: number;
+  onCancel: () => void;
+  onConfirm: (stage: 'research' | 'draft', feedback: string) => void;
+}
+
+function RejectDialog({ count, inReview, onCancel, onConfirm }: RejectDialogProps) {
+  const [stage, setStage] = useState<'research' | 'draft'>('draft');
+  const [feedback, setFeedback] = useState('');
+  return (
+    <Dialog
+      title={`Reject ${count} items`}
+      confirmLabel="Reject & Send Back"
+      confirmDisabled={!feedback.trim()}
+      danger
+      onCancel={onCancel}
+      onConfirm={() => onConfirm(stage, feedback.trim())}
+    >
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-2">Send back to</label>
+        <StagePills stages={['research', 'draft'] as const} value={stage} onChange={setStage} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Feedback for every item *</label>
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          rows={4}
+          placeholder="What needs to be changed and why..."
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+        />
+      </div>
+      <ReviewOnlyNote count={count} inReview={inReview} />
+    </Dialog>
+  );
+}
+
+interface RescheduleDialogProps {
+  count: number;
+  onCancel: () => void;
+  onConfirm: (at: string | null) => void;
+}
+
+function RescheduleDialog({ count, onCancel, onConfirm }: RescheduleDialogProps) {
+  const [value, setValue] = useState('');
+  return (
+    <Dialog
+      title={`Reschedule ${count} items`}
+      confirmLabel={value ? 'Reschedule' : 'Clear schedule'}
+      onCancel={onCancel}
+      // datetime-local is in the browser's timezone; the API stores UTC
+      onConfirm={() => onConfirm(value ? new Date(value).toISOString() : null)}
+    >
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Publish at</label>
+        <input
+          type="datetime-local"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+        />
+        <p className="text-xs text-gray-400 mt-1">Leave empty to remove the scheduled date.</p>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import type { BulkItem } from '../hooks/useBulkAction';
+import { describeError } from '../lib/errors';
+
+const STATUS_ICONS: Record<BulkItem['status'], { icon: string; className: string }> = {
+  queued: { icon: '○', className: 'text-gray-300' },
+  running: { icon: '◐', className: 'text-gray-500 animate-pulse' },
+  done: { icon: '✓', className: 'text-emerald-600' },
+  failed: { icon: '✕', className: 'text-red-500' },
+};
+
+interface Props {
+  title: string;
+  items: BulkItem[];
+  running: boolean;
+  onRetryFailed: () => void;
+  onDone: () => void;
+}
+
+export default function BulkProgress({ title, items, running, onRetryFailed, onDone }: Props) {
+  const finished = items.filter((i) => i.status === 'done' || i.status === 'failed').length;
+  const failed = items.filter((i) => i.status === 'failed');
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-lg mx-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold text-gray-900">{title}</h3>
+          <span className="text-xs text-gray-400 tabular-nums">{finished} / {items.length}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${failed.length ? 'bg-amber-500' : 'bg-emerald-500'}`}
+            style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }}
+          />
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-50">
+          {items.map((item) => (
+            <li key={item.id} className="py-2 flex items-start gap-2">
+              <span className={`text-sm w-4 text-center flex-shrink-0 ${STATUS_ICONS[item.status].className}`}>{STATUS_ICONS[item.status].icon}</span>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-gray-700 truncate">{item.label}</div>
+                {item.status === 'failed' && (
+                  <div className="text-xs text-red-600 break-words">{describeError(item.error).message}</div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {!running && (
+          <div className="flex items-center gap-2 pt-1">
+            <p className="text-sm text-gray-600 flex-1">
+              {failed.length
+                ? `${items.length - failed.length} succeeded, ${failed.length} failed`
+                : `All ${items.length} succeeded`}
+            </p>
+            {failed.length > 0 && (
+              <button onClick={onRetryFailed} className="px-3 py-2 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition">
+                Retry failed
+              </button>
+            )}
+            <button onClick={onDone} className="px-4 py-2 text-sm font-medium bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition">
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+interface Props {
+  title: string;
+  confirmLabel: string;
+  confirmDisabled?: boolean;
+  danger?: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+  children: React.ReactNode;
+}
+
+export default function Dialog({ title, confirmLabel, confirmDisabled, danger, onCancel, onConfirm, children }: Props) {
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md mx-4 space-y-4">
+        <h3 className="text-base font-semibold text-gray-900">{title}</h3>
+        {children}
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700 transition">
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={confirmDisabled}
+            className={`px-4 py-2 text-sm font-medium text-white rounded-lg transition disabled:opacity-50 ${
+              danger ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-900 hover:bg-gray-800'
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
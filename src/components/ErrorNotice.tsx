@@ -0,0 +1,41 @@
+import { describeError } from '../lib/errors';
+import { useAuth } from '../hooks/useAuth';
+
+interface Props {
+  error: unknown;
+  onRetry?: () => void;
+}
+
+export default function ErrorNotice({ error, onRetry }: Props) {
+  const { signOut } = useAuth();
+  const desc = describeError(error);
+  const colors = desc.kind === 'rate_limited' || desc.kind === 'conflict'
+    ? 'bg-amber-50 border-amber-100 text-amber-700'
+    : 'bg-red-50 border-red-100 text-red-700';
+
+  return (
+    <div className={`max-w-lg mx-auto my-8 border rounded-xl px-4 py-3 ${colors}`}>
+      <div className="text-sm font-medium">{desc.title}</div>
+      <p className="text-xs mt-1 opacity-80 break-words">{desc.message}</p>
+      {(desc.kind === 'auth' || (desc.retryable && onRetry)) && (
+        <div className="mt-3 flex gap-2">
+          {desc.kind === 'auth' ? (
+            <button
+              onClick={signOut}
+              className="px-3 py-1.5 text-xs font-medium bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition"
+            >
+              Sign in again
+            </button>
+          ) : (
+            <button
+              onClick={onRetry}
+              className="px-3 py-1.5 text-xs font-medium bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+            >
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
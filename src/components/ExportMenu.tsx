@@ -0,0 +1,79 @@
+import { useState, useRef, useEffect } from 'react';
+import { useToast } from '../hooks/useToast';
+import { isAbortError } from '../lib/errors';
+import { exportContent, exportFilename, downloadBlob, type ExportFormat, type ExportProgress } from '../lib/export';
+import type { ContentFilters, SortDirection } from '../lib/contentViews';
+import type { Site } from '../lib/types';
+
+interface Props {
+  site: Site;
+  filters: ContentFilters;
+  sort: string;
+  dir: SortDirection;
+}
+
+export default function ExportMenu({ site, filters, sort, dir }: Props) {
+  const { showToast, showError } = useToast();
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the page stops the export
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ exported: 0, total: null });
+    try {
+      const blob = await exportContent({ siteId: site.id, format, filters, sort, dir, signal: controller.signal, onProgress: setProgress });
+      downloadBlob(blob, exportFilename(site.domain || site.id, format));
+      showToast({ tone: 'success', title: 'Export ready' });
+    } catch (e: unknown) {
+      if (!isAbortError(e)) showError(e, { title: 'Export failed', onRetry: () => handleExport(format) });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (progress) {
+    const percent = progress.total ? Math.min(100, Math.round((progress.exported / progress.total) * 100)) : null;
+    return (
+      <div className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-lg">
+        <span className="w-3 h-3 border-2 border-gray-200 border-t-gray-800 rounded-full animate-spin" />
+        <span className="text-gray-600 tabular-nums">
+          {progress.exported.toLocaleString()}
+          {progress.total !== null && ` / ${progress.total.toLocaleString()}`}
+          {percent !== null && ` (${percent}%)`}
+        </span>
+        <button onClick={() => controllerRef.current?.abort()} className="text-xs text-gray-400 hover:text-gray-700 transition">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+      >
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-52 bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden z-20">
+          <p className="px-3 pt-2.5 pb-1 text-[10px] text-gray-400">Uses the current filters and sort</p>
+          <button onClick={() => handleExport('csv')} className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 transition">
+            CSV spreadsheet
+          </button>
+          <button onClick={() => handleExport('json')} className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 transition">
+            JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
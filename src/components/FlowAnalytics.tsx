@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useFlow } from '../hooks/useFlow';
+import type { Site } from '../lib/types';
+import { STAGES, STAGE_COLORS, formatDay } from '../lib/utils';
+import { median, formatDuration } from '../lib/traceStats';
+import { throughput, stageDurations, cycleTimes, type Granularity, type ThroughputBucket } from '../lib/throughput';
+
+interface Props {
+  site: Site;
+}
+
+const SERIES: { key: keyof Omit<ThroughputBucket, 'start'>; label: string; color: string }[] = [
+  { key: 'created', label: 'Created', color: 'bg-gray-300' },
+  { key: 'reviewed', label: 'Reviewed', color: 'bg-yellow-400' },
+  { key: 'published', label: 'Published', color: 'bg-green-500' },
+];
+
+export default function FlowAnalytics({ site }: Props) {
+  const { content, traces, error, refetch } = useFlow(site);
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  // Pinned so the buckets don't shift between renders
+  const [now] = useState(() => Date.now());
+
+  if (!content || !traces) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+        {error ? (
+          <p className="text-sm text-red-600">
+            Couldn't load throughput.{' '}
+            <button onClick={refetch} className="underline hover:no-underline">Retry</button>
+          </p>
+        ) : (
+          <div className="h-40 flex items-center justify-center">
+            <span className="w-5 h-5 border-2 border-gray-200 border-t-gray-800 rounded-full animate-spin" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const buckets = throughput(content, granularity, now);
+  const peak = Math.max(...buckets.flatMap((b) => SERIES.map((s) => b[s.key])), 1);
+  const cycles = cycleTimes(content, traces, now);
+  const cycleMedian = median(cycles.map((c) => c.ms));
+  const durations = stageDurations(content, traces, now);
+  const stageMedians = STAGES
+    .filter((stage) => durations[stage]?.length)
+    .map((stage) => ({ stage, ms: median(durations[stage])!, count: durations[stage].length }));
+  const slowest = Math.max(...stageMedians.map((s) => s.ms), 1);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      {/* Throughput */}
+      <div className="lg:col-span-2 bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-sm font-medium text-gray-900">Throughput</h2>
+          <div className="flex items-center gap-1">
+            {(['day', 'week'] as Granularity[]).map((g) => (
+              <button
+                key={g}
+                onClick={() => setGranularity(g)}
+                className={`px-2.5 py-1 text-xs rounded-md border transition capitalize ${
+                  granularity === g ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                By {g}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-1 h-32">
+          {buckets.map((b) => (
+            <div
+              key={b.start}
+              className="flex-1 h-full flex items-end gap-px"
+              title={`${granularity === 'week' ? 'Week of ' : ''}${formatDay(b.start)} · ${SERIES.map((s) => `${b[s.key]} ${s.label.toLowerCase()}`).join(' · ')}`}
+            >
+              {SERIES.map((s) => (
+                <span
+                  key={s.key}
+                  className={`flex-1 rounded-t-sm ${b[s.key] ? s.color : 'bg-gray-50'}`}
+                  style={{ height: b[s.key] ? `${(b[s.key] / peak) * 100}%` : '2px' }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between mt-1.5 text-[10px] text-gray-400">
+          <span>{formatDay(buckets[0].start)}</span>
+          <span>{formatDay(buckets[buckets.length - 1].start)}</span>
+        </div>
+        <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-500">
+          {SERIES.map((s) => (
+            <span key={s.key} className="flex items-center gap-1.5">
+              <span className={`w-2.5 h-2.5 rounded-sm ${s.color}`} />
+              {s.label}
+              <span className="text-gray-900 font-medium tabular-nums">{buckets.reduce((sum, b) => sum + b[s.key], 0)}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Cycle time */}
+      <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+        <h2 className="text-sm font-medium text-gray-900">Cycle time</h2>
+        <div className="mt-3">
+          <div className="text-2xl font-semibold text-gray-900 tabular-nums">{cycleMedian === null ? '—' : formatDuration(cycleMedian)}</div>
+          <div className="text-xs text-gray-500 mt-0.5">
+            Median research → published{cycles.length > 0 && ` · ${cycles.length} article${cycles.length === 1 ? '' : 's'}`}
+          </div>
+        </div>
+        <h3 className="text-xs font-medium text-gray-500 mt-5 mb-2">Median time in stage</h3>
+        {stageMedians.length === 0 ? (
+          <p className="text-xs text-gray-400">No finished stages in the last 90 days</p>
+        ) : (
+          <div className="space-y-1.5">
+            {stageMedians.map(({ stage, ms, count }) => {
+              const colors = STAGE_COLORS[stage] || STAGE_COLORS.failed;
+              return (
+                <div key={stage} className="flex items-center gap-2 text-xs" title={`${count} item${count === 1 ? '' : 's'}`}>
+                  <span className={`w-16 capitalize ${colors.text}`}>{stage}</span>
+                  <div className="flex-1 h-2 bg-gray-50 rounded">
+                    <div className={`h-2 rounded ${colors.dot}`} style={{ width: `${Math.max((ms / slowest) * 100, 2)}%` }} />
+                  </div>
+                  <span className="w-16 text-right text-gray-600 tabular-nums">{formatDuration(ms)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
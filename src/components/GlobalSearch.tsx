@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSites } from '../hooks/useSites';
+import { useQuery } from '../hooks/useQuery';
+import { searchSite, queryKeys } from '../lib/api';
+import { describeError } from '../lib/errors';
+import { highlightSegments, searchTerms } from '../lib/search';
+import type { SearchHit, SearchResults } from '../lib/types';
+
+const MIN_QUERY_LENGTH = 2;
+
+const GROUPS: { key: keyof SearchResults; label: string; href: (hit: SearchHit) => string }[] = [
+  { key: 'content', label: 'Content', href: (hit) => `/content/${hit.id}` },
+  { key: 'topics', label: 'Topics', href: (hit) => `/topics?focus=${hit.id}` },
+  { key: 'ideas', label: 'Ideas', href: (hit) => `/ideas?focus=${hit.id}` },
+];
+
+export default function GlobalSearch() {
+  const { selectedSite } = useSites();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [debounced, setDebounced] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // "/" or Cmd/Ctrl+K focuses the box from anywhere outside a text field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const typing = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if ((e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !typing)) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const siteId = selectedSite?.id;
+  const enabled = !!siteId && debounced.length >= MIN_QUERY_LENGTH;
+  const { data, error, fetching } = useQuery(
+    enabled ? queryKeys.search(siteId, debounced) : null,
+    (signal) => searchSite(siteId!, debounced, 8, { signal }),
+  );
+
+  const groups = (data ? GROUPS.map((g) => ({ ...g, hits: data[g.key] })).filter((g) => g.hits.length > 0) : [])
+    // Offset of each group's first hit in the flattened keyboard order
+    .map((g, i, all) => ({ ...g, start: all.slice(0, i).reduce((n, prev) => n + prev.hits.length, 0) }));
+  const flat = groups.flatMap((g) => g.hits.map((hit) => ({ hit, href: g.href(hit) })));
+  const active = Math.min(activeIndex, flat.length - 1);
+  const terms = searchTerms(debounced);
+
+  const go = (href: string) => {
+    setOpen(false);
+    setQuery('');
+    inputRef.current?.blur();
+    navigate(href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!flat.length) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + flat.length) % flat.length);
+    } else if (e.key === 'Enter' && flat[active]) {
+      e.preventDefault();
+      go(flat[active].href);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); setOpen(true); }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search…"
+        role="combobox"
+        aria-expanded={open && enabled}
+        aria-controls="global-search-results"
+        aria-activedescendant={flat[active] ? `search-hit-${active}` : undefined}
+        className="w-32 sm:w-56 text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-900"
+      />
+      {open && enabled && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute right-0 mt-2 w-[calc(100vw-2rem)] max-w-md bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden z-50"
+          // Keep focus in the input so blur doesn't close the list before a click lands
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {error ? (
+            <p className="px-4 py-3 text-xs text-red-600">{describeError(error).title}</p>
+          ) : !data ? (
+            <p className="px-4 py-3 text-xs text-gray-400">Searching…</p>
+          ) : groups.length === 0 ? (
+            <p className="px-4 py-3 text-xs text-gray-400">No matches for “{debounced}”</p>
+          ) : (
+            <div className={`max-h-96 overflow-y-auto py-1 ${fetching ? 'opacity-60' : ''}`}>
+              {groups.map((group) => (
+                <div key={group.key}>
+                  <div className="px-4 pt-2 pb-1 text-[10px] font-medium text-gray-400 uppercase tracking-wide">{group.label}</div>
+                  {group.hits.map((hit, i) => {
+                    const index = group.start + i;
+                    return (
+                      <button
+                        key={hit.id}
+                        id={`search-hit-${index}`}
+                        role="option"
+                        aria-selected={index === active}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => go(group.href(hit))}
+                        className={`w-full px-4 py-2 text-left transition ${index === active ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm text-gray-900 truncate"><Highlight text={hit.title} terms={terms} /></span>
+                          <span className="text-[10px] text-gray-400 capitalize flex-shrink-0">{hit.status}</span>
+                        </div>
+                        {hit.snippet && (
+                          <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">
+                            <span className="text-gray-400">{hit.field}: </span>
+                            <Highlight text={hit.snippet} terms={terms} />
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((seg, i) =>
+        seg.match ? <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">{seg.text}</mark> : <span key={i}>{seg.text}</span>,
+      )}
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  hasMore: boolean;
+  loading: boolean;
+  error: unknown;
+  loaded: number;
+  total: number | null;
+  onLoadMore: () => void;
+}
+
+// Infinite scroll footer: loads the next page as it nears the viewport, with a manual fallback
+export default function LoadMore({ hasMore, loading, error, loaded, total, onLoadMore }: Props) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Auto-loading stops after a failure so a broken page isn't requested in a loop
+  const autoLoad = hasMore && !loading && !error;
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !autoLoad) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [autoLoad, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-2 text-xs text-gray-400">
+      <span className="tabular-nums">
+        Showing {loaded.toLocaleString()}{total !== null ? ` of ${total.toLocaleString()}` : ''}
+      </span>
+      {error ? (
+        <div className="flex items-center gap-2 text-red-600">
+          <span>{describeError(error).title}</span>
+          <button onClick={onLoadMore} className="px-3 py-1 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition">
+            Retry
+          </button>
+        </div>
+      ) : loading ? (
+        <span>Loading more…</span>
+      ) : hasMore && (
+        <button onClick={onLoadMore} className="px-3 py-1 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition">
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { useRangeParams } from '../hooks/useRangeParams';
+import type { Site } from '../lib/types';
+
+interface Props {
+  range: ReturnType<typeof useRangeParams>;
+  // Offers an "All sites" scope picker when given
+  sites?: Site[];
+}
+
+export default function RangeToolbar({ range, sites }: Props) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {sites && (
+        <select
+          value={range.scope}
+          onChange={(e) => range.setScope(e.target.value)}
+          className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900"
+        >
+          <option value="">All sites</option>
+          {sites.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      )}
+      {range.ranges.map((r) => (
+        <button
+          key={r}
+          onClick={() => range.setDays(r)}
+          className={`px-3 py-1.5 text-sm rounded-lg border transition ${
+            range.days === r ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          {r}d
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useToast } from '../hooks/useToast';
+import { useRunWatcher } from '../hooks/useRunWatcher';
+import { resumePipeline } from '../lib/api';
+import type { Trace } from '../lib/types';
+import { STAGE_COLORS, WORK_STAGES, failedStage } from '../lib/utils';
+import Dialog from './Dialog';
+
+interface Props {
+  runId: string;
+  siteId: string;
+  title: string | null;
+  traces: Trace[];
+  onResumed?: () => void;
+}
+
+export default function ResumeRunButton({ runId, siteId, title, traces, onResumed }: Props) {
+  const { showError } = useToast();
+  const { watch } = useRunWatcher();
+  // Only a failure in one of the work stages narrows the choice. Without one (no trace written, traces
+  // didn't load, or the run failed outside those stages, e.g. while publishing) offer every stage
+  const failed = failedStage(traces);
+  const failedIndex = WORK_STAGES.indexOf(failed as (typeof WORK_STAGES)[number]);
+  const options = failedIndex >= 0 ? WORK_STAGES.slice(0, failedIndex + 1) : WORK_STAGES;
+  const [open, setOpen] = useState(false);
+  // Defaults to the failed stage, which may only be known once traces have loaded. When it isn't
+  // known, start over from the first stage: later ones may depend on output that was never written
+  const [chosen, setChosen] = useState<string | null>(null);
+  const fromStage = chosen ?? (failedIndex >= 0 ? options[options.length - 1] : WORK_STAGES[0]);
+  const [resuming, setResuming] = useState(false);
+  const fromIndex = options.indexOf(fromStage as (typeof WORK_STAGES)[number]);
+
+  const handleResume = async () => {
+    setResuming(true);
+    try {
+      await resumePipeline(runId, fromStage, siteId);
+      watch(runId, title || undefined);
+      setOpen(false);
+      onResumed?.();
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't resume run", onRetry: handleResume });
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="px-4 py-1.5 text-sm font-medium bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+      >
+        ↻ Resume run
+      </button>
+
+      {open && (
+        <Dialog
+          title="Resume from a stage"
+          confirmLabel={resuming ? 'Resuming…' : `Resume from ${fromStage}`}
+          confirmDisabled={resuming}
+          onCancel={() => setOpen(false)}
+          onConfirm={handleResume}
+        >
+          <p className="text-sm text-gray-500">
+            {failed ? <>The run failed in <span className="font-medium capitalize">{failed}</span>. </> : null}
+            Earlier stages keep their output; the chosen stage and everything after it run again.
+          </p>
+          <div className="space-y-1.5">
+            {options.map((stage, i) => {
+              const colors = STAGE_COLORS[stage] || STAGE_COLORS.failed;
+              return (
+                <label
+                  key={stage}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition ${
+                    stage === fromStage ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="resume-stage"
+                    value={stage}
+                    checked={stage === fromStage}
+                    onChange={() => setChosen(stage)}
+                    className="accent-gray-900"
+                  />
+                  <span className={`px-2 py-0.5 text-xs rounded-md font-medium capitalize ${colors.bg} ${colors.text}`}>{stage}</span>
+                  <span className="ml-auto text-xs text-gray-400">
+                    {i < fromIndex ? 'keep output' : stage === failed ? 'failed · run again' : 'run again'}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </Dialog>
+      )}
+    </>
+  );
+}
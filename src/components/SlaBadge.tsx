@@ -0,0 +1,18 @@
+import { describeRule, formatOverdue, type SlaStatus } from '../lib/sla';
+
+interface Props {
+  status: SlaStatus | undefined;
+}
+
+// Shown beside the stage badge once an item is past its SLA
+export default function SlaBadge({ status }: Props) {
+  if (!status?.breached) return null;
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-red-50 text-red-700 whitespace-nowrap"
+      title={`SLA: ${describeRule(status.rule)}`}
+    >
+      {formatOverdue(status.overdueMs)} overdue
+    </span>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFlow } from '../hooks/useFlow';
+import type { Site } from '../lib/types';
+import { STAGE_COLORS } from '../lib/utils';
+import { formatDuration } from '../lib/traceStats';
+import { stageAging } from '../lib/throughput';
+import { stageAgeLimits } from '../lib/siteSettings';
+
+interface Props {
+  site: Site;
+}
+
+export default function StageAging({ site }: Props) {
+  const { content, traces, error, refetch } = useFlow(site);
+  const [now] = useState(() => Date.now());
+  const limits = stageAgeLimits(site);
+  const items = content && traces ? stageAging(content, traces, limits, now) : null;
+  const stuck = items?.filter((i) => i.stuck).length ?? 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-medium text-gray-900">Stage Aging</h2>
+          {stuck > 0 && <span className="px-2 py-0.5 text-xs font-medium bg-red-50 text-red-700 rounded-full">{stuck} stuck</span>}
+        </div>
+        <Link to="/overdue" className="text-xs text-gray-400 hover:text-gray-600 transition">
+          {Object.entries(limits).map(([stage, hours]) => `${stage} ${hours}h`).join(' · ') || 'No stage limits'} · SLA rules →
+        </Link>
+      </div>
+
+      {!items ? (
+        error ? (
+          <p className="px-4 sm:px-6 py-4 text-sm text-red-600">
+            Couldn't load stage ages.{' '}
+            <button onClick={refetch} className="underline hover:no-underline">Retry</button>
+          </p>
+        ) : (
+          <div className="h-20 flex items-center justify-center">
+            <span className="w-5 h-5 border-2 border-gray-200 border-t-gray-800 rounded-full animate-spin" />
+          </div>
+        )
+      ) : items.length === 0 ? (
+        <p className="px-4 sm:px-6 py-6 text-sm text-gray-400 text-center">
+          {Object.keys(limits).length ? `Nothing waiting in ${Object.keys(limits).join(' or ')}` : 'No stage has a time limit'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {items.map((item) => {
+            const colors = STAGE_COLORS[item.stage] || STAGE_COLORS.failed;
+            return (
+              <li key={item.content.id}>
+                <Link
+                  to={item.stage === 'review' ? `/content/${item.content.id}/review` : `/content/${item.content.id}`}
+                  className="px-4 sm:px-6 py-3 flex items-center gap-3 hover:bg-gray-50 transition"
+                >
+                  <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">{item.content.title || 'Untitled'}</span>
+                  <span className={`px-2 py-0.5 text-xs rounded-md font-medium capitalize ${colors.bg} ${colors.text}`}>{item.stage}</span>
+                  <div className="w-24 h-1.5 bg-gray-100 rounded hidden sm:block" title={`Limit ${formatDuration(item.limitMs)}`}>
+                    <div
+                      className={`h-1.5 rounded ${item.stuck ? 'bg-red-500' : 'bg-gray-400'}`}
+                      style={{ width: `${Math.min(item.ageMs / item.limitMs, 1) * 100}%` }}
+                    />
+                  </div>
+                  <span className={`w-20 text-right text-xs tabular-nums ${item.stuck ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                    {formatDuration(item.ageMs)}
+                  </span>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
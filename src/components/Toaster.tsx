@@ -0,0 +1,71 @@
+import { useToast } from '../hooks/useToast';
+import { useAuth } from '../hooks/useAuth';
+
+const TONE_CLASSES = {
+  error: 'border-red-200 bg-white',
+  success: 'border-green-200 bg-white',
+  info: 'border-gray-200 bg-white',
+} as const;
+
+const TONE_ICONS = {
+  error: { icon: '!', className: 'bg-red-50 text-red-600' },
+  success: { icon: '✓', className: 'bg-green-50 text-green-600' },
+  info: { icon: 'i', className: 'bg-gray-100 text-gray-600' },
+} as const;
+
+export default function Toaster() {
+  const { toasts, dismiss } = useToast();
+  const { signOut } = useAuth();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 left-4 sm:left-auto z-50 flex flex-col gap-2 sm:w-96">
+      {toasts.map((toast) => {
+        const icon = TONE_ICONS[toast.tone];
+        return (
+          <div key={toast.id} className={`border rounded-xl shadow-lg px-4 py-3 flex items-start gap-3 ${TONE_CLASSES[toast.tone]}`}>
+            <span className={`w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 ${icon.className}`}>
+              {icon.icon}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900">{toast.title}</div>
+              {toast.message && <p className="text-xs text-gray-500 mt-0.5 break-words">{toast.message}</p>}
+              {(toast.errorKind === 'auth' || toast.onRetry || toast.action) && (
+                <div className="mt-2 flex gap-3">
+                  {toast.errorKind === 'auth' && (
+                    <button
+                      onClick={() => { dismiss(toast.id); signOut(); }}
+                      className="text-xs font-medium text-gray-900 hover:underline"
+                    >
+                      Sign in again
+                    </button>
+                  )}
+                  {toast.onRetry && (
+                    <button
+                      onClick={() => { dismiss(toast.id); toast.onRetry?.(); }}
+                      className="text-xs font-medium text-gray-900 hover:underline"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {toast.action && (
+                    <button
+                      onClick={() => { dismiss(toast.id); toast.action?.onClick(); }}
+                      className="text-xs font-medium text-gray-900 hover:underline"
+                    >
+                      {toast.action.label}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <button onClick={() => dismiss(toast.id)} className="text-gray-300 hover:text-gray-500 text-xs transition">
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import type { Trace } from '../lib/types';
+import { STAGE_COLORS } from '../lib/utils';
+import { buildWaterfall, stageShares, formatDuration, OUTLIER_FACTOR } from '../lib/traceStats';
+
+interface Props {
+  traces: Trace[];
+  // Site-wide median latency per stage; outliers are only flagged when it's known
+  medians?: Record<string, number>;
+}
+
+const TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+export default function TraceWaterfall({ traces, medians }: Props) {
+  const { rows, span } = buildWaterfall(traces, medians);
+  if (rows.length === 0) return null;
+  const shares = stageShares(rows.map((r) => r.trace));
+  const pct = (ms: number) => `${span ? (ms / span) * 100 : 0}%`;
+
+  return (
+    <div className="space-y-5">
+      {/* Waterfall */}
+      <div>
+        <div className="flex text-[10px] text-gray-400 tabular-nums mb-1">
+          <div className="w-20 sm:w-24 flex-shrink-0" />
+          <div className="flex-1 relative h-3">
+            {TICKS.map((t) => (
+              <span
+                key={t}
+                className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+                style={{ left: `${t * 100}%` }}
+              >
+                {formatDuration(span * t)}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          {rows.map((row) => {
+            const colors = STAGE_COLORS[row.trace.stage] || STAGE_COLORS.failed;
+            const failed = row.trace.status !== 'success';
+            const queueStart = row.queuedMs !== null && row.queuedMs > 0 ? row.start - row.queuedMs : null;
+            return (
+              <div key={row.trace.id} className="flex items-center gap-0">
+                <div className="w-20 sm:w-24 flex-shrink-0 pr-2">
+                  <div className={`text-xs font-medium capitalize ${colors.text}`}>{row.trace.stage}</div>
+                  <div className="text-[10px] text-gray-400 truncate" title={`${row.trace.model}${row.trace.system_prompt_hash ? ` · prompt ${row.trace.system_prompt_hash}` : ''}`}>{row.trace.model}</div>
+                </div>
+                <div className="flex-1 relative h-7 bg-gray-50 rounded">
+                  {TICKS.slice(1, -1).map((t) => (
+                    <span key={t} className="absolute top-0 bottom-0 w-px bg-gray-100" style={{ left: `${t * 100}%` }} />
+                  ))}
+                  {queueStart !== null && (
+                    <span
+                      className="absolute top-3 h-px border-t border-dashed border-gray-300"
+                      style={{ left: pct(queueStart), width: pct(row.queuedMs!) }}
+                      title={`Queued ${formatDuration(row.queuedMs!)}`}
+                    />
+                  )}
+                  <span
+                    className={`absolute top-1 bottom-1 rounded min-w-[2px] ${failed ? 'bg-red-400' : colors.dot} ${row.outlier ? 'ring-2 ring-red-500 ring-offset-1' : ''}`}
+                    style={{ left: pct(row.start), width: pct(row.end - row.start) }}
+                    title={`${formatDuration(row.end - row.start)}${row.vsMedian !== null ? ` · ${row.vsMedian.toFixed(1)}× site median` : ''}`}
+                  />
+                </div>
+                <div className="w-28 sm:w-36 flex-shrink-0 pl-3 text-xs tabular-nums">
+                  <span className="text-gray-600">{formatDuration(row.trace.latency_ms || 0)}</span>
+                  {row.outlier && (
+                    <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-medium bg-red-50 text-red-700 rounded">
+                      {row.vsMedian!.toFixed(1)}× median
+                    </span>
+                  )}
+                  {row.queuedMs !== null && row.queuedMs < 0 && (
+                    <span className="ml-1.5 text-[10px] text-amber-600" title="Started before the previous stage finished">overlap</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <p className="mt-2 text-[10px] text-gray-400">
+          Dashed lines are time spent waiting between stages.
+          {medians && ` Outlined bars took at least ${OUTLIER_FACTOR}× the site's median for that stage.`}
+        </p>
+      </div>
+
+      {/* Token and cost share */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-100">
+              <th className="py-2 font-medium">Stage</th>
+              <th className="py-2 font-medium">Tokens (input / output)</th>
+              <th className="py-2 font-medium text-right">Token share</th>
+              <th className="py-2 font-medium text-right">Cost</th>
+              <th className="py-2 font-medium text-right">Cost share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {shares.map((s) => {
+              const colors = STAGE_COLORS[s.stage] || STAGE_COLORS.failed;
+              const tokens = s.inputTokens + s.outputTokens;
+              return (
+                <tr key={s.stage}>
+                  <td className={`py-2 capitalize font-medium ${colors.text}`}>{s.stage}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 sm:w-32 h-2 rounded-full bg-gray-100 overflow-hidden flex">
+                        <span className="h-full bg-gray-400" style={{ width: `${tokens ? (s.inputTokens / tokens) * 100 : 0}%` }} />
+                        <span className={`h-full ${colors.dot}`} style={{ width: `${tokens ? (s.outputTokens / tokens) * 100 : 0}%` }} />
+                      </div>
+                      <span className="text-gray-500 tabular-nums whitespace-nowrap">
+                        {s.inputTokens.toLocaleString()} / {s.outputTokens.toLocaleString()}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="py-2 text-right text-gray-600 tabular-nums">{(s.tokenShare * 100).toFixed(1)}%</td>
+                  <td className="py-2 text-right text-gray-600 tabular-nums">${s.cost.toFixed(4)}</td>
+                  <td className="py-2 text-right tabular-nums">
+                    <span className="inline-flex items-center gap-1.5 justify-end">
+                      <span className="w-12 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                        <span className="block h-full bg-gray-800" style={{ width: `${s.costShare * 100}%` }} />
+                      </span>
+                      <span className="text-gray-600 w-10">{(s.costShare * 100).toFixed(1)}%</span>
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
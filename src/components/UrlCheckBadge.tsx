@@ -0,0 +1,29 @@
+import type { UrlCheck } from '../lib/types';
+import { URL_CHECK_COLORS, formatDatetime } from '../lib/utils';
+
+interface Props {
+  check: UrlCheck | null;
+}
+
+export default function UrlCheckBadge({ check }: Props) {
+  if (!check) {
+    return <span className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-500 whitespace-nowrap">Not checked</span>;
+  }
+  const colors = URL_CHECK_COLORS[check.status] || URL_CHECK_COLORS.broken;
+  const detail = [
+    check.final_url && `→ ${check.final_url}`,
+    check.error_message,
+    check.latency_ms !== null && `${check.latency_ms}ms`,
+    `checked ${formatDatetime(check.checked_at)}`,
+  ].filter(Boolean).join(' · ');
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap capitalize ${colors.bg} ${colors.text}`}
+      title={detail}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${colors.dot}`} />
+      {check.status}
+      {check.http_status !== null && <span className="tabular-nums opacity-70">{check.http_status}</span>}
+    </span>
+  );
+}
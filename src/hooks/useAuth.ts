@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+
+interface AuthContextType {
+  signOut: () => void;
+}
+
+export const AuthContext = createContext<AuthContextType>({
+  signOut: () => {},
+});
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
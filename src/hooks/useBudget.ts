@@ -0,0 +1,26 @@
+import { useQuery } from './useQuery';
+import { fetchSiteTraces, queryKeys } from '../lib/api';
+import type { Site } from '../lib/types';
+import { baselineRange } from '../lib/traceStats';
+import { monthlyBudget } from '../lib/siteSettings';
+import { budgetStatus, estimateRunCost } from '../lib/budget';
+
+// Month-to-date spend against the site's budget. Traces come from the same baseline window
+// as the latency medians, which always covers the current month, so the cache is shared.
+export function useBudget(site: Site | null) {
+  const budget = site ? monthlyBudget(site) : null;
+  const range = baselineRange();
+  const { data: traces, error, refetch } = useQuery(
+    site && budget ? queryKeys.siteTraces(site.id, range) : null,
+    (signal) => fetchSiteTraces(site!.id, range, { signal }),
+  );
+
+  return {
+    budget,
+    traces,
+    status: budget && traces ? budgetStatus(budget, traces) : null,
+    runCostMicros: traces ? estimateRunCost(traces) : null,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useCallback, useRef } from 'react';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { batchInvalidations } from '../lib/queryCache';
+
+export type BulkItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BulkItem {
+  id: string;
+  label: string;
+  status: BulkItemStatus;
+  error?: unknown;
+}
+
+export interface BulkTarget {
+  id: string;
+  label: string;
+}
+
+// Enough to finish a page of items quickly without tripping the worker's rate limit
+const BULK_CONCURRENCY = 4;
+
+// Runs one action over many items, tracking each item's progress. Lists refetch once when the batch ends.
+export function useBulkAction() {
+  const [title, setTitle] = useState<string | null>(null);
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [running, setRunning] = useState(false);
+  // Kept so "retry failed" can re-run the same action
+  const actionRef = useRef<((id: string) => Promise<unknown>) | null>(null);
+
+  const setStatus = (id: string, status: BulkItemStatus, error?: unknown) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, status, error } : item)));
+  };
+
+  const start = useCallback(async (targets: BulkTarget[], action: (id: string) => Promise<unknown>) => {
+    actionRef.current = action;
+    setItems(targets.map((t) => ({ ...t, status: 'queued' })));
+    setRunning(true);
+    try {
+      await batchInvalidations(() => mapWithConcurrency(targets, BULK_CONCURRENCY, async (target) => {
+        setStatus(target.id, 'running');
+        try {
+          await action(target.id);
+          setStatus(target.id, 'done');
+        } catch (e: unknown) {
+          setStatus(target.id, 'failed', e);
+          throw e;
+        }
+      }));
+    } finally {
+      setRunning(false);
+    }
+  }, []);
+
+  const run = useCallback((label: string, targets: BulkTarget[], action: (id: string) => Promise<unknown>) => {
+    setTitle(label);
+    return start(targets, action);
+  }, [start]);
+
+  const retryFailed = useCallback(() => {
+    if (!actionRef.current) return;
+    return start(items.filter((i) => i.status === 'failed').map(({ id, label }) => ({ id, label })), actionRef.current);
+  }, [items, start]);
+
+  const reset = useCallback(() => {
+    actionRef.current = null;
+    setTitle(null);
+    setItems([]);
+  }, []);
+
+  return { title, items, running, run, retryFailed, reset };
+}
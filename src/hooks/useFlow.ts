@@ -0,0 +1,29 @@
+import { useQuery } from './useQuery';
+import { fetchSiteTraces, queryKeys } from '../lib/api';
+import type { Site } from '../lib/types';
+import { baselineRange } from '../lib/traceStats';
+import { loadSiteContent } from '../lib/throughput';
+
+// Every item on the site with the traces that time its stages. The traces use the baseline window,
+// so the cache is shared with the budget and latency medians.
+export function useFlow(site: Site | null) {
+  const range = baselineRange();
+  const contentQuery = useQuery(
+    site ? queryKeys.siteContent(site.id) : null,
+    (signal) => loadSiteContent(site!.id, { signal }),
+  );
+  const tracesQuery = useQuery(
+    site ? queryKeys.siteTraces(site.id, range) : null,
+    (signal) => fetchSiteTraces(site!.id, range, { signal }),
+  );
+
+  return {
+    content: contentQuery.data,
+    traces: tracesQuery.data,
+    error: contentQuery.error || tracesQuery.error,
+    refetch: () => {
+      contentQuery.refetch();
+      tracesQuery.refetch();
+    },
+  };
+}
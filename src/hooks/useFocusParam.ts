@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// Reads ?focus=<id> (set by search results) and scrolls the element `${prefix}-${id}` into view once it has rendered
+export function useFocusParam(prefix: string, ready: boolean): string | null {
+  const [searchParams] = useSearchParams();
+  const focus = searchParams.get('focus');
+
+  useEffect(() => {
+    if (!focus || !ready) return;
+    document.getElementById(`${prefix}-${focus}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [prefix, focus, ready]);
+
+  return focus;
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useQuery } from './useQuery';
+import { isAbortError } from '../lib/errors';
+import { hashKey, type QueryKey } from '../lib/queryCache';
+
+export interface InfiniteData<T> {
+  pages: T[];
+  nextCursor: string | null;
+}
+
+type PageFetcher<T> = (cursor: string | null, signal: AbortSignal) => Promise<T>;
+
+// Cursor-paged query. The cache holds every loaded page; a refetch after invalidation starts over from page one.
+export function useInfiniteQuery<T>(key: QueryKey | null, fetchPage: PageFetcher<T>, getNextCursor: (page: T) => string | null) {
+  const fetchPageRef = useRef(fetchPage);
+  const getNextCursorRef = useRef(getNextCursor);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Tagged with the key it belongs to so switching lists doesn't carry an old failure over
+  const [moreError, setMoreError] = useState<{ hash: string | null; error: unknown } | null>(null);
+
+  useEffect(() => {
+    fetchPageRef.current = fetchPage;
+    getNextCursorRef.current = getNextCursor;
+  });
+
+  const query = useQuery<InfiniteData<T>>(key, async (signal) => {
+    const page = await fetchPageRef.current(null, signal);
+    return { pages: [page], nextCursor: getNextCursorRef.current(page) };
+  });
+  const { data, setData } = query;
+  const nextCursor = data?.nextCursor ?? null;
+  const hash = key ? hashKey(key) : null;
+
+  // Drop an in-flight page when the list changes underneath it or the component goes away
+  useEffect(() => () => controllerRef.current?.abort(), [hash]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (!nextCursor || controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const page = await fetchPageRef.current(nextCursor, controller.signal);
+      setData((prev) => {
+        // A refetch may have reset the list while this page was loading
+        if (!prev || prev.nextCursor !== nextCursor) return prev as InfiniteData<T>;
+        return { pages: [...prev.pages, page], nextCursor: getNextCursorRef.current(page) };
+      });
+    } catch (e) {
+      if (!isAbortError(e)) setMoreError({ hash, error: e });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setLoadingMore(false);
+    }
+  }, [nextCursor, setData, hash]);
+
+  return {
+    ...query,
+    hasNextPage: nextCursor !== null,
+    fetchNextPage,
+    loadingMore,
+    moreError: moreError?.hash === hash ? moreError.error : null,
+  };
+}
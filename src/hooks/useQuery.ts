@@ -0,0 +1,55 @@
+import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { fetchQuery, getQueryState, subscribeQuery, setQueryData, hashKey, type QueryKey, type QueryState } from '../lib/queryCache';
+
+const IDLE_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, fetching: false };
+
+interface QueryOptions {
+  staleTime?: number;
+}
+
+// Subscribes a component to a cached query. Pass a null key to skip fetching.
+export function useQuery<T>(key: QueryKey | null, fetcher: (signal: AbortSignal) => Promise<T>, options?: QueryOptions) {
+  const hash = key ? hashKey(key) : null;
+  const staleTime = options?.staleTime;
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback((listener: () => void) => {
+    if (!hash) return () => {};
+    return subscribeQuery(JSON.parse(hash), listener);
+  }, [hash]);
+
+  const getSnapshot = useCallback((): QueryState<T> => {
+    if (!hash) return IDLE_STATE;
+    return getQueryState<T>(JSON.parse(hash));
+  }, [hash]);
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!hash) return;
+    // Errors land in the cached state; nothing to do with the rejection here
+    fetchQuery(JSON.parse(hash), (signal) => fetcherRef.current(signal), { staleTime }).catch(() => {});
+  }, [hash, staleTime]);
+
+  const refetch = useCallback(() => {
+    if (!hash) return;
+    fetchQuery(JSON.parse(hash), (signal) => fetcherRef.current(signal), { force: true }).catch(() => {});
+  }, [hash]);
+
+  const setData = useCallback((updater: (prev: T | undefined) => T) => {
+    if (hash) setQueryData<T>(JSON.parse(hash), updater);
+  }, [hash]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: state.data === undefined && !state.error,
+    fetching: state.fetching,
+    refetch,
+    setData,
+  };
+}
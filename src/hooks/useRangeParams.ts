@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DAY_MS } from '../lib/utils';
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// The ?days window and ?site scope of the analytics pages. Both stay out of the URL at their defaults.
+export function useRangeParams(ranges: number[], defaultRange: number) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const days = ranges.includes(Number(searchParams.get('days'))) ? Number(searchParams.get('days')) : defaultRange;
+  const scope = searchParams.get('site') || '';
+  // Pinned when the page opens so the window doesn't shift between renders
+  const [now] = useState(() => Date.now());
+
+  const setParam = (name: string, value: string | undefined) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    setSearchParams(next);
+  };
+
+  return {
+    ranges,
+    days,
+    scope,
+    now,
+    today: isoDay(now),
+    from: isoDay(now - (days - 1) * DAY_MS),
+    // First UTC day of a window of `span` days ending today
+    startOf: (span: number) => isoDay(now - (span - 1) * DAY_MS),
+    setDays: (value: number) => setParam('days', value === defaultRange ? undefined : String(value)),
+    setScope: (siteId: string) => setParam('site', siteId || undefined),
+  };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef, createContext, useContext } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { fetchPipelineStatus, queryKeys } from '../lib/api';
+import { fetchQuery } from '../lib/queryCache';
+import { describeError, isAbortError } from '../lib/errors';
+import { RUN_END_STAGES } from '../lib/utils';
+import { useToast } from './useToast';
+
+export const RUN_POLL_INTERVAL_MS = 3000;
+// Consecutive failed polls after which a run is given up on
+const MAX_POLL_FAILURES = 5;
+
+interface WatchedRun {
+  runId: string;
+  title: string | null;
+}
+
+interface RunWatcherContextType {
+  watched: WatchedRun[];
+  watch: (runId: string, title?: string | null) => void;
+}
+
+export const RunWatcherContext = createContext<RunWatcherContextType>({
+  watched: [],
+  watch: () => {},
+});
+
+const END_MESSAGES: Record<string, string> = {
+  review: 'is ready for review',
+  scheduled: 'was scheduled',
+  published: 'was published',
+  failed: 'failed',
+};
+
+function notifyBrowser(title: string, body: string) {
+  // Only worth interrupting when the dashboard isn't the tab being looked at
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) return;
+  new Notification(title, { body });
+}
+
+// Polls runs someone is waiting on and announces when each one stops. Lives inside the router so toasts can link to the run.
+export function useRunWatcherProvider() {
+  const navigate = useNavigate();
+  const { showToast, showError } = useToast();
+  const [watched, setWatched] = useState<WatchedRun[]>([]);
+  // Last stage seen per run; a run that is already finished the first time we look is not announced
+  const seenRef = useRef(new Map<string, string>());
+  const failuresRef = useRef(new Map<string, number>());
+
+  const watch = useCallback((runId: string, title?: string | null) => {
+    setWatched((prev) => (prev.some((w) => w.runId === runId) ? prev : [...prev, { runId, title: title ?? null }]));
+    // Asked for here because starting a run is a user gesture
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+  }, []);
+
+  useEffect(() => {
+    if (watched.length === 0) return;
+    const poll = () => {
+      for (const run of watched) {
+        // Shares the request with an open run page polling the same key
+        fetchQuery(queryKeys.pipelineStatus(run.runId), (signal) => fetchPipelineStatus(run.runId, { signal }), {
+          staleTime: RUN_POLL_INTERVAL_MS / 2,
+        }).then((status) => {
+          failuresRef.current.delete(run.runId);
+          const stage = status.content.stage;
+          const previous = seenRef.current.get(run.runId);
+          seenRef.current.set(run.runId, stage);
+          if (!RUN_END_STAGES.includes(stage)) return;
+
+          setWatched((prev) => prev.filter((w) => w.runId !== run.runId));
+          if (previous === undefined || RUN_END_STAGES.includes(previous)) return;
+          const title = status.content.title || run.title || 'Pipeline run';
+          const message = `${title} ${END_MESSAGES[stage]}`;
+          showToast({
+            tone: stage === 'failed' ? 'error' : 'success',
+            title: stage === 'failed' ? 'Pipeline run failed' : 'Pipeline run finished',
+            message,
+            action: { label: 'View run', onClick: () => navigate(`/runs/${run.runId}`) },
+          });
+          notifyBrowser('Pipeline', message);
+        }).catch((error) => {
+          // Aborted when an open run page stops polling the shared key; the next tick asks again
+          if (isAbortError(error)) return;
+          const failures = (failuresRef.current.get(run.runId) || 0) + 1;
+          failuresRef.current.set(run.runId, failures);
+          // Anything retryable gets another few ticks; a missing run or a rejected session won't recover by itself
+          if (describeError(error).retryable && failures < MAX_POLL_FAILURES) return;
+
+          failuresRef.current.delete(run.runId);
+          setWatched((prev) => prev.filter((w) => w.runId !== run.runId));
+          showError(error, {
+            title: `Stopped watching ${run.title || 'pipeline run'}`,
+            onRetry: () => watch(run.runId, run.title),
+          });
+        });
+      }
+    };
+    poll();
+    const timer = setInterval(poll, RUN_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [watched, watch, showToast, showError, navigate]);
+
+  return { watched, watch };
+}
+
+export function useRunWatcher() {
+  return useContext(RunWatcherContext);
+}
@@ -1,13 +1,15 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import type { Site } from '../lib/types';
-import { fetchSites } from '../lib/api';
+import { fetchSites, hasToken } from '../lib/api';
+import { isAbortError } from '../lib/errors';
 
 interface SiteContextType {
   sites: Site[];
   selectedSite: Site | null;
   setSelectedSite: (site: Site) => void;
+  replaceSite: (site: Site) => void;
   loading: boolean;
-  error: string | null;
+  error: unknown;
   reload: () => void;
 }
 
@@ -15,6 +17,7 @@ export const SiteContext = createContext<SiteContextType>({
   sites: [],
   selectedSite: null,
   setSelectedSite: () => {},
+  replaceSite: () => {},
   loading: false,
   error: null,
   reload: () => {},
@@ -24,29 +27,30 @@ export function useSiteProvider() {
   const [sites, setSites] = useState<Site[]>([]);
   const [selectedSite, setSelectedSite] = useState<Site | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [retryCount, setRetryCount] = useState(0);
 
   const reload = () => setRetryCount((c) => c + 1);
 
   useEffect(() => {
     // Don't fetch if no token yet
-    const token = localStorage.getItem('pipeline_token');
-    if (!token) {
+    if (!hasToken()) {
       setLoading(false);
       return;
     }
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
-    fetchSites()
+    fetchSites({ signal: controller.signal })
       .then((s) => {
         setSites(s);
         const saved = localStorage.getItem('selected_site_id');
         const match = saved ? s.find((site) => site.id === saved) : null;
         setSelectedSite(match || s[0] || null);
       })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
+      .catch((e) => { if (!isAbortError(e)) setError(e); })
+      .finally(() => { if (!controller.signal.aborted) setLoading(false); });
+    return () => controller.abort();
   }, [retryCount]);
 
   const selectSite = (site: Site) => {
@@ -54,7 +58,13 @@ export function useSiteProvider() {
     localStorage.setItem('selected_site_id', site.id);
   };
 
-  return { sites, selectedSite, setSelectedSite: selectSite, loading, error, reload };
+  // Swaps in a saved site without a full reload, which would blank the app behind its spinner
+  const replaceSite = (site: Site) => {
+    setSites((prev) => prev.map((s) => (s.id === site.id ? site : s)));
+    setSelectedSite((prev) => (prev?.id === site.id ? site : prev));
+  };
+
+  return { sites, selectedSite, setSelectedSite: selectSite, replaceSite, loading, error, reload };
 }
 
 export function useSites() {
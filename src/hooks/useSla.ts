@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { useFlow } from './useFlow';
+import { useQuery } from './useQuery';
+import { fetchTracesForRuns, queryKeys } from '../lib/api';
+import { fetchQuery } from '../lib/queryCache';
+import type { Content, Site, Trace } from '../lib/types';
+import { slaRules } from '../lib/siteSettings';
+import { evaluateSla, type SlaStatus } from '../lib/sla';
+import { chunk } from '../lib/utils';
+
+// Run ids per trace request, which keeps the query string short
+const TRACE_BATCH_SIZE = 25;
+
+// Each batch is cached on its own, so loading another page only asks for the runs it added. The batch
+// requests aren't tied to the caller's signal since other callers may be sharing them.
+async function loadRunTraces(runIds: string[]): Promise<Trace[]> {
+  const results = await Promise.all(chunk(runIds, TRACE_BATCH_SIZE).map((batch) => fetchQuery(
+    queryKeys.runTraces(batch),
+    (signal) => fetchTracesForRuns(batch, { signal }),
+  )));
+  return results.flat();
+}
+
+// SLA standing of every item on the site, evaluated against the moment the caller mounted
+export function useSla(site: Site | null) {
+  const { content, traces, error, refetch } = useFlow(site);
+  const [now] = useState(() => Date.now());
+  const rules = site ? slaRules(site) : [];
+  const statuses = content && traces ? evaluateSla(content, traces, rules, now) : undefined;
+
+  return {
+    rules,
+    statuses,
+    byId: new Map((statuses || []).map((s) => [s.content.id, s])),
+    error,
+    refetch,
+  };
+}
+
+// SLA standing of just the rows a page has loaded, for badges. Only rows in a stage with a time limit
+// need their run's traces to say when they entered it; a failed trace fetch falls back to row timestamps.
+export function useContentSla(site: Site | null, content: Content[] | undefined): Map<string, SlaStatus> {
+  const [now] = useState(() => Date.now());
+  const rules = site ? slaRules(site) : [];
+  const limited = new Set(rules.flatMap((r) => (r.type === 'max_age' ? [r.stage] : [])));
+  // Kept in row order so the batches of earlier pages stay the same as more are loaded
+  const runIds = [...new Set((content || []).filter((c) => c.run_id && limited.has(c.stage)).map((c) => c.run_id!))];
+  const { data: traces, error } = useQuery(
+    runIds.length ? queryKeys.slaTraces(runIds) : null,
+    () => loadRunTraces(runIds),
+  );
+  if (!content || (runIds.length && !traces && !error)) return new Map();
+  return new Map(evaluateSla(content, traces || [], rules, now).map((s) => [s.content.id, s]));
+}
@@ -0,0 +1,64 @@
+import { useState, useCallback, createContext, useContext } from 'react';
+import { describeError, type ErrorKind } from '../lib/errors';
+
+export interface Toast {
+  id: number;
+  tone: 'error' | 'success' | 'info';
+  title: string;
+  message?: string;
+  errorKind?: ErrorKind;
+  onRetry?: () => void;
+  action?: { label: string; onClick: () => void };
+}
+
+interface ToastContextType {
+  toasts: Toast[];
+  showToast: (toast: Omit<Toast, 'id'>) => void;
+  showError: (error: unknown, options?: { title?: string; onRetry?: () => void }) => void;
+  dismiss: (id: number) => void;
+}
+
+export const ToastContext = createContext<ToastContextType>({
+  toasts: [],
+  showToast: () => {},
+  showError: () => {},
+  dismiss: () => {},
+});
+
+const AUTO_DISMISS_MS = 6000;
+
+let nextId = 1;
+
+export function useToastProvider() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = nextId++;
+    setToasts((prev) => [...prev, { ...toast, id }]);
+    // Errors that need a decision (retry, sign in) stay until dismissed
+    if (toast.tone !== 'error' || !(toast.onRetry || toast.errorKind === 'auth')) {
+      setTimeout(() => dismiss(id), AUTO_DISMISS_MS);
+    }
+  }, [dismiss]);
+
+  const showError = useCallback((error: unknown, options?: { title?: string; onRetry?: () => void }) => {
+    const desc = describeError(error);
+    showToast({
+      tone: 'error',
+      title: options?.title ? `${options.title}: ${desc.title.toLowerCase()}` : desc.title,
+      message: desc.message,
+      errorKind: desc.kind,
+      onRetry: desc.retryable ? options?.onRetry : undefined,
+    });
+  }, [showToast]);
+
+  return { toasts, showToast, showError, dismiss };
+}
+
+export function useToast() {
+  return useContext(ToastContext);
+}
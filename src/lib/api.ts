@@ -1,99 +1,369 @@
-import type { Site, Topic, Pillar, Voice, Content, Claim, Source, Trace, Revision, ReviewMessage, SourceSuggestion, WatchTopic, Idea, IdeaScanRun } from './types';
-
-const BASE_URL = 'https://content-pipeline.roccobot.workers.dev';
+import type { Site, Topic, Pillar, Voice, Content, ContentPage, ContentStats, ContentMetrics, UrlCheck, RunPage, SearchResults, Claim, Source, Trace, Revision, ReviewMessage, ReviewAction, SourceSuggestion, WatchTopic, Idea, IdeaScanRun } from './types';
+import { getEnvironment, getBaseUrl, getProfileToken, setProfileToken, isMockBaseUrl } from './environments';
+import { ApiError, isAbortError, parseErrorBody } from './errors';
+import { RETRYABLE_STATUSES, backoffDelay, sleep } from './retry';
+import { invalidateQueries, clearQueryCache, type QueryKey } from './queryCache';
+import type { ContentFilters, SortDirection } from './contentViews';
+import {
+  shape, arrayOf, nullable, number, string, recordOf, decodeResponse, decodeTopic, decodeContent, decodeRevision, decodeReviewMessage,
+  decodeReviewAction, decodeWatchTopic, decodeScanRun, decodeIdea, decodeSearchHit, decodeRun, type Decoder,
+} from './decode';
 
 function getToken(): string | null {
-  return localStorage.getItem('pipeline_token');
+  return getProfileToken();
 }
 
 export function setToken(token: string) {
-  localStorage.setItem('pipeline_token', token);
+  setProfileToken(getEnvironment().id, token);
 }
 
 export function clearToken() {
-  localStorage.removeItem('pipeline_token');
+  setProfileToken(getEnvironment().id, null);
+  clearQueryCache();
 }
 
 export function hasToken(): boolean {
   return !!getToken();
 }
 
-async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
-  const token = getToken();
-  if (!token) throw new Error('No auth token');
-
-  const res = await fetch(`${BASE_URL}${path}`, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      ...options?.headers,
-    },
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+let transportOverride: Transport | null = null;
+
+// Lets tests route every request through an in-memory backend; pass null to restore the network
+export function setTransport(transport: Transport | null) {
+  transportOverride = transport;
+}
+
+async function send(url: string, init?: RequestInit): Promise<Response> {
+  if (transportOverride) return transportOverride(url, init);
+  if (isMockBaseUrl(url)) {
+    // Loaded on demand so the fixtures stay out of the main bundle
+    const { mockFetch } = await import('../mock/server');
+    return mockFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
+// Checks a passphrase against an environment before it is saved
+export async function verifyToken(baseUrl: string, token: string): Promise<{ ok: boolean; status: number }> {
+  const res = await send(`${baseUrl}/api/sites`, {
+    headers: { Authorization: `Bearer ${token}` },
   });
+  return { ok: res.ok, status: res.status };
+}
+
+export interface RequestOpts {
+  signal?: AbortSignal;
+}
+
+interface ApiFetchOptions<T> extends RequestInit {
+  decode?: Decoder<T>;
+}
+
+const MAX_ATTEMPTS = 3;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+async function apiFetch<T>(path: string, options?: ApiFetchOptions<T>): Promise<T> {
+  const token = getToken();
+  if (!token) throw new ApiError(401, path, null, 'No auth token');
+
+  const { decode, ...init } = options || {};
+  const method = (init.method || 'GET').toUpperCase();
+  // A POST may have started work before failing, so repeating it could run that work twice
+  const canRetry = IDEMPOTENT_METHODS.includes(method);
+
+  for (let attempt = 0; ; attempt++) {
+    const lastAttempt = !canRetry || attempt === MAX_ATTEMPTS - 1;
+    let res: Response;
+    try {
+      res = await send(`${getBaseUrl()}${path}`, {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...init.headers,
+        },
+      });
+    } catch (e) {
+      // Network failures are retried; aborts are not
+      if (lastAttempt || isAbortError(e)) throw e;
+      await sleep(backoffDelay(attempt), init.signal ?? undefined);
+      continue;
+    }
+
+    if (res.ok) {
+      const body = await res.json();
+      return decode ? decodeResponse(path, body, decode) : body;
+    }
+
+    if (!lastAttempt && RETRYABLE_STATUSES.includes(res.status)) {
+      await sleep(backoffDelay(attempt, res.headers.get('Retry-After')), init.signal ?? undefined);
+      continue;
+    }
 
-  if (!res.ok) {
     const text = await res.text();
-    throw new Error(`API ${res.status}: ${text}`);
+    throw new ApiError(res.status, path, parseErrorBody(text));
   }
+}
 
-  return res.json();
+// Cache keys are hierarchical so a mutation can invalidate a whole family by prefix
+export const queryKeys = {
+  sites: () => ['sites'],
+  topics: (siteId: string) => ['topics', siteId],
+  pillars: (siteId: string) => ['pillars', siteId],
+  voices: (siteId: string) => ['voices', siteId],
+  content: () => ['content'],
+  contentList: (siteId?: string, stage?: string, limit?: number) => ['content', 'list', siteId, stage, limit],
+  contentPages: (siteId?: string, query?: object) => ['content', 'pages', siteId, query],
+  contentStats: (siteId?: string) => ['content', 'stats', siteId],
+  contentMetrics: (ids: string[]) => ['content', 'metrics', ids],
+  siteContent: (siteId: string) => ['content', 'all', siteId],
+  contentDetail: (id: string) => ['content', 'detail', id],
+  traces: (runId: string) => ['traces', runId],
+  runTraces: (runIds: string[]) => ['traces', 'runs', runIds],
+  slaTraces: (runIds: string[]) => ['traces', 'sla', runIds],
+  siteTraces: (siteId?: string, range?: object) => ['traces', 'site', siteId, range],
+  costs: (siteIds?: string[], from?: string) => ['traces', 'costs', siteIds, from],
+  failures: (siteIds?: string[], from?: string) => ['traces', 'failures', siteIds, from],
+  pipelineStatus: (runId: string) => ['pipeline-status', runId],
+  reviewMessages: (contentId: string) => ['review-messages', contentId],
+  revisions: (contentId: string) => ['revisions', contentId],
+  watchTopics: (siteId?: string, includeInactive?: boolean) => ['watch-topics', siteId, includeInactive],
+  ideas: (siteId?: string, filters?: object) => ['ideas', siteId, filters],
+  scanRuns: (siteId?: string, watchTopicId?: string, limit?: number) => ['scan-runs', siteId, watchTopicId, limit],
+  runs: (siteId?: string, query?: object) => ['runs', siteId, query],
+  search: (siteId: string, query: string) => ['search', siteId, query],
+  urlChecks: (siteId?: string, contentId?: string) => ['url-checks', siteId, contentId],
+} satisfies Record<string, (...args: never[]) => QueryKey>;
+
+// Waits for a mutation, then marks the cached queries it affects as stale
+async function mutate<T>(request: Promise<T>, ...affected: QueryKey[]): Promise<T> {
+  const result = await request;
+  affected.forEach((key) => invalidateQueries(key));
+  return result;
+}
+
+const ALL_PAGES_LIMIT = 100;
+
+// Follows next_cursor to the end, for views that need every row rather than one page
+export async function fetchAllPages<P extends { next_cursor: string | null }, T>(
+  fetchPage: (cursor: string | null, limit: number) => Promise<P>,
+  rows: (page: P) => T[],
+): Promise<T[]> {
+  const all: T[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchPage(cursor, ALL_PAGES_LIMIT);
+    all.push(...rows(page));
+    cursor = page.next_cursor;
+  } while (cursor);
+  return all;
 }
 
 // Sites
-export async function fetchSites(): Promise<Site[]> {
-  const data = await apiFetch<{ sites: Site[] }>('/api/sites');
+export async function fetchSites(opts?: RequestOpts): Promise<Site[]> {
+  const data = await apiFetch<{ sites: Site[] }>('/api/sites', opts);
   return data.sites;
 }
 
+export async function updateSite(siteId: string, updates: { settings: string }): Promise<Site> {
+  const data = await mutate(apiFetch<{ site: Site }>(`/api/sites/${siteId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  }), queryKeys.sites());
+  return data.site;
+}
+
 // Topics
-export async function fetchTopics(siteId: string): Promise<Topic[]> {
-  const data = await apiFetch<{ topics: Topic[] }>(`/api/sites/${siteId}/topics`);
+export async function fetchTopics(siteId: string, opts?: RequestOpts): Promise<Topic[]> {
+  const data = await apiFetch(`/api/sites/${siteId}/topics`, {
+    ...opts,
+    decode: shape<{ topics: Topic[] }>({ topics: arrayOf(decodeTopic) }),
+  });
   return data.topics;
 }
 
 // Pillars
-export async function fetchPillars(siteId: string): Promise<Pillar[]> {
-  const data = await apiFetch<{ pillars: Pillar[] }>(`/api/sites/${siteId}/pillars`);
+export async function fetchPillars(siteId: string, opts?: RequestOpts): Promise<Pillar[]> {
+  const data = await apiFetch<{ pillars: Pillar[] }>(`/api/sites/${siteId}/pillars`, opts);
   return data.pillars;
 }
 
 // Voices
-export async function fetchVoices(siteId: string): Promise<Voice[]> {
-  const data = await apiFetch<{ voices: Voice[] }>(`/api/sites/${siteId}/voices`);
+export async function fetchVoices(siteId: string, opts?: RequestOpts): Promise<Voice[]> {
+  const data = await apiFetch<{ voices: Voice[] }>(`/api/sites/${siteId}/voices`, opts);
   return data.voices;
 }
 
 // Content
-export async function fetchContent(siteId?: string, stage?: string, limit = 50): Promise<Content[]> {
+export async function fetchContent(siteId?: string, stage?: string, limit = 50, opts?: RequestOpts): Promise<Content[]> {
+  const page = await fetchContentPage({ siteId, stage, limit }, opts);
+  return page.content;
+}
+
+export interface ContentPageQuery {
+  siteId?: string;
+  stage?: string;
+  limit?: number;
+  cursor?: string | null;
+  sort?: string;
+  dir?: SortDirection;
+  filters?: ContentFilters;
+}
+
+// Newest first unless sorted otherwise; pass the previous page's next_cursor to continue
+export async function fetchContentPage(query: ContentPageQuery, opts?: RequestOpts): Promise<ContentPage> {
   const params = new URLSearchParams();
-  if (siteId) params.set('site_id', siteId);
+  const filters = query.filters || {};
+  const stage = filters.stage || query.stage;
+  if (query.siteId) params.set('site_id', query.siteId);
   if (stage) params.set('stage', stage);
-  params.set('limit', String(limit));
-  const data = await apiFetch<{ content: Content[] }>(`/api/content?${params}`);
-  return data.content;
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.dir) params.set('order', query.dir);
+  if (filters.minQuality !== undefined) params.set('min_quality', String(filters.minQuality));
+  if (filters.maxQuality !== undefined) params.set('max_quality', String(filters.maxQuality));
+  if (filters.category) params.set('category', filters.category);
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.requiresReview) params.set('requires_review', '1');
+  if (filters.scheduledFrom) params.set('scheduled_from', filters.scheduledFrom);
+  if (filters.scheduledTo) params.set('scheduled_to', filters.scheduledTo);
+  if (filters.voiceProfileId) params.set('voice_profile_id', filters.voiceProfileId);
+  params.set('limit', String(query.limit || 50));
+  return apiFetch(`/api/content?${params}`, {
+    ...opts,
+    decode: shape<ContentPage>({
+      content: arrayOf(decodeContent),
+      next_cursor: nullable(string),
+      total: nullable(number),
+    }),
+  });
+}
+
+// Counts across every row for the site, not just a loaded page
+export async function fetchContentStats(siteId: string, opts?: RequestOpts): Promise<ContentStats> {
+  return apiFetch(`/api/content/stats?site_id=${siteId}`, {
+    ...opts,
+    decode: shape<ContentStats>({
+      total: number,
+      by_stage: recordOf(number),
+      by_category: recordOf(number),
+      by_tag: recordOf(number),
+      avg_quality: nullable(number),
+    }),
+  });
+}
+
+export async function fetchContentMetrics(ids: string[], opts?: RequestOpts): Promise<ContentMetrics[]> {
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  const data = await apiFetch(`/api/content/metrics?${params}`, {
+    ...opts,
+    decode: shape<{ metrics: ContentMetrics[] }>({
+      metrics: arrayOf(shape<ContentMetrics>({
+        content_id: string,
+        claims_by_status: recordOf(number),
+        sources_by_reliability: recordOf(number),
+        total_tokens: number,
+        cost_usd: number,
+      })),
+    }),
+  });
+  return data.metrics;
 }
 
-export async function fetchContentDetail(id: string): Promise<{ content: Content; claims: Claim[]; sources: Source[] }> {
-  return apiFetch(`/api/content/${id}`);
+export async function fetchContentDetail(id: string, opts?: RequestOpts): Promise<{ content: Content; claims: Claim[]; sources: Source[] }> {
+  return apiFetch(`/api/content/${id}`, {
+    ...opts,
+    decode: shape<{ content: Content; claims: Claim[]; sources: Source[] }>({ content: decodeContent }),
+  });
+}
+
+// Search
+export async function searchSite(siteId: string, query: string, limit = 8, opts?: RequestOpts): Promise<SearchResults> {
+  const params = new URLSearchParams({ site_id: siteId, q: query, limit: String(limit) });
+  return apiFetch(`/api/search?${params}`, {
+    ...opts,
+    decode: shape<SearchResults>({
+      content: arrayOf(decodeSearchHit),
+      topics: arrayOf(decodeSearchHit),
+      ideas: arrayOf(decodeSearchHit),
+    }),
+  });
 }
 
 // Traces
-export async function fetchTraces(runId: string): Promise<Trace[]> {
-  const data = await apiFetch<{ traces: Trace[] }>(`/api/traces?run_id=${runId}`);
+export async function fetchTraces(runId: string, opts?: RequestOpts): Promise<Trace[]> {
+  const data = await apiFetch<{ traces: Trace[] }>(`/api/traces?run_id=${runId}`, opts);
+  return data.traces;
+}
+
+// Traces for a handful of runs in one request, e.g. the runs behind a page of content
+export async function fetchTracesForRuns(runIds: string[], opts?: RequestOpts): Promise<Trace[]> {
+  const params = new URLSearchParams({ run_ids: runIds.join(',') });
+  const data = await apiFetch<{ traces: Trace[] }>(`/api/traces?${params}`, opts);
+  return data.traces;
+}
+
+export interface DateRange {
+  // Inclusive YYYY-MM-DD bounds
+  from?: string;
+  to?: string;
+}
+
+// Every trace for a site's runs, for baselines and rollups
+export async function fetchSiteTraces(siteId: string, range: DateRange = {}, opts?: RequestOpts): Promise<Trace[]> {
+  const params = new URLSearchParams({ site_id: siteId });
+  if (range.from) params.set('from', range.from);
+  if (range.to) params.set('to', range.to);
+  const data = await apiFetch<{ traces: Trace[] }>(`/api/traces?${params}`, opts);
   return data.traces;
 }
 
 // Pipeline status
-export async function fetchPipelineStatus(runId: string): Promise<{ content: Content; traces: Trace[] }> {
-  return apiFetch(`/api/pipeline/status/${runId}`);
+export async function fetchPipelineStatus(runId: string, opts?: RequestOpts): Promise<{ content: Content; traces: Trace[] }> {
+  return apiFetch(`/api/pipeline/status/${runId}`, {
+    ...opts,
+    decode: shape<{ content: Content; traces: Trace[] }>({ content: decodeContent }),
+  });
+}
+
+// Pipeline runs
+// Dates bound when the run started
+export interface RunFilters extends DateRange {
+  status?: string;
+  topic_id?: string;
+  run_ids?: string[];
+}
+
+export async function fetchRuns(siteId: string, filters: RunFilters = {}, cursor?: string | null, limit = 25, opts?: RequestOpts): Promise<RunPage> {
+  const params = new URLSearchParams({ site_id: siteId, limit: String(limit) });
+  if (filters.status) params.set('status', filters.status);
+  if (filters.topic_id) params.set('topic_id', filters.topic_id);
+  if (filters.run_ids) params.set('run_ids', filters.run_ids.join(','));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (cursor) params.set('cursor', cursor);
+  return apiFetch(`/api/pipeline/runs?${params}`, {
+    ...opts,
+    decode: shape<RunPage>({ runs: arrayOf(decodeRun), next_cursor: nullable(string), total: nullable(number) }),
+  });
 }
 
 // Pipeline
 export async function runPipeline(topicId: string, siteId: string): Promise<{ run_id: string; content_id: string; status: string }> {
-  return apiFetch('/api/pipeline/run', {
+  return mutate(apiFetch('/api/pipeline/run', {
     method: 'POST',
     body: JSON.stringify({ topic_id: topicId, site_id: siteId }),
-  });
+  }), queryKeys.content(), queryKeys.topics(siteId), queryKeys.runs(siteId));
+}
+
+// Re-runs a failed run from `fromStage` on, keeping what the stages before it produced
+export async function resumePipeline(runId: string, fromStage: string, siteId: string): Promise<{ run_id: string; content_id: string; status: string }> {
+  return mutate(apiFetch('/api/pipeline/resume', {
+    method: 'POST',
+    body: JSON.stringify({ run_id: runId, from_stage: fromStage }),
+  }), queryKeys.content(), queryKeys.topics(siteId), queryKeys.runs(siteId), queryKeys.traces(runId), queryKeys.pipelineStatus(runId));
 }
 
 // Create topic
@@ -110,58 +380,119 @@ export async function createTopic(siteId: string, topic: {
   style?: string;
   target_length?: number;
 }): Promise<{ id: string; success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/topics`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/topics`, {
     method: 'POST',
     body: JSON.stringify(topic),
-  });
+  }), queryKeys.topics(siteId));
+}
+
+export async function updateTopic(siteId: string, topicId: string, updates: { scheduled_at?: string | null }): Promise<{ success: boolean }> {
+  return mutate(apiFetch(`/api/sites/${siteId}/topics/${topicId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  }), queryKeys.topics(siteId));
 }
 
 // Review chat
-export async function sendReviewChat(contentId: string, message: string): Promise<{
+interface ReviewChatResponse {
   message: string;
-  actions_taken: Array<{ action: string; details: string }>;
+  actions_taken: ReviewAction[];
   revision: Revision | null;
   updated_content: Content | null;
   concerns: string[];
-}> {
-  return apiFetch(`/api/content/${contentId}/review/chat`, {
+}
+
+export async function sendReviewChat(contentId: string, message: string): Promise<ReviewChatResponse> {
+  return mutate(apiFetch(`/api/content/${contentId}/review/chat`, {
     method: 'POST',
     body: JSON.stringify({ message }),
-  });
+    decode: shape<ReviewChatResponse>({
+      actions_taken: arrayOf(decodeReviewAction),
+      revision: nullable(decodeRevision),
+      updated_content: nullable(decodeContent),
+    }),
+  }), queryKeys.reviewMessages(contentId), queryKeys.revisions(contentId), queryKeys.content());
 }
 
 // Review messages
-export async function fetchReviewMessages(contentId: string): Promise<ReviewMessage[]> {
-  const data = await apiFetch<{ messages: ReviewMessage[] }>(`/api/content/${contentId}/review/messages`);
+export async function fetchReviewMessages(contentId: string, opts?: RequestOpts): Promise<ReviewMessage[]> {
+  const data = await apiFetch(`/api/content/${contentId}/review/messages`, {
+    ...opts,
+    decode: shape<{ messages: ReviewMessage[] }>({ messages: arrayOf(decodeReviewMessage) }),
+  });
   return data.messages;
 }
 
 // Revisions
 export async function createRevision(contentId: string, updatedMd: string, fieldsChanged?: string[]): Promise<{ revision: Revision; concerns: string[] }> {
-  return apiFetch(`/api/content/${contentId}/revisions`, {
+  return mutate(apiFetch(`/api/content/${contentId}/revisions`, {
     method: 'POST',
     body: JSON.stringify({ updated_md: updatedMd, fields_changed: fieldsChanged }),
-  });
+    decode: shape<{ revision: Revision; concerns: string[] }>({ revision: decodeRevision }),
+  }), queryKeys.revisions(contentId), queryKeys.content());
 }
 
-export async function fetchRevisions(contentId: string): Promise<Revision[]> {
-  const data = await apiFetch<{ revisions: Revision[] }>(`/api/content/${contentId}/revisions`);
+export async function fetchRevisions(contentId: string, opts?: RequestOpts): Promise<Revision[]> {
+  const data = await apiFetch(`/api/content/${contentId}/revisions`, {
+    ...opts,
+    decode: shape<{ revisions: Revision[] }>({ revisions: arrayOf(decodeRevision) }),
+  });
   return data.revisions;
 }
 
 // Approve/Reject
 export async function approveContent(contentId: string, targetStage?: string): Promise<{ success: boolean }> {
-  return apiFetch(`/api/content/${contentId}/review/approve`, {
+  return mutate(apiFetch(`/api/content/${contentId}/review/approve`, {
     method: 'POST',
     body: JSON.stringify({ target_stage: targetStage || 'scheduled' }),
-  });
+  }), queryKeys.content());
 }
 
 export async function rejectContent(contentId: string, targetStage: string, feedback: string): Promise<{ success: boolean }> {
-  return apiFetch(`/api/content/${contentId}/review/reject`, {
+  return mutate(apiFetch(`/api/content/${contentId}/review/reject`, {
     method: 'POST',
     body: JSON.stringify({ target_stage: targetStage, feedback }),
-  });
+  }), queryKeys.content(), queryKeys.revisions(contentId));
+}
+
+// Content fields editors can change outside the review flow
+export async function updateContent(contentId: string, updates: { scheduled_publish_at?: string | null }): Promise<{ success: boolean }> {
+  return mutate(apiFetch(`/api/content/${contentId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  }), queryKeys.content());
+}
+
+// Published URL checks; the worker does the fetching so the browser never hits the URLs itself
+const decodeUrlChecks = shape<{ checks: UrlCheck[] }>({
+  checks: arrayOf(shape<UrlCheck>({
+    content_id: string,
+    platform: string,
+    url: string,
+    status: string,
+    http_status: nullable(number),
+    final_url: nullable(string),
+    latency_ms: nullable(number),
+    error_message: nullable(string),
+    checked_at: string,
+  })),
+});
+
+export async function fetchUrlChecks(siteId: string, contentId?: string, opts?: RequestOpts): Promise<UrlCheck[]> {
+  const params = new URLSearchParams();
+  if (contentId) params.set('content_id', contentId);
+  const data = await apiFetch(`/api/sites/${siteId}/url-checks?${params}`, { ...opts, decode: decodeUrlChecks });
+  return data.checks;
+}
+
+// Checks every published URL for the site, or just one item's
+export async function checkPublishedUrls(siteId: string, contentId?: string): Promise<UrlCheck[]> {
+  const data = await mutate(apiFetch(`/api/sites/${siteId}/url-checks`, {
+    method: 'POST',
+    body: JSON.stringify(contentId ? { content_id: contentId } : {}),
+    decode: decodeUrlChecks,
+  }), queryKeys.urlChecks(siteId));
+  return data.checks;
 }
 
 // Source suggestions
@@ -175,93 +506,113 @@ export async function suggestSources(siteId: string, title: string, description:
 
 // Create pillar
 export async function createPillar(siteId: string, pillar: { name: string; description?: string }): Promise<{ id: string; success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/pillars`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/pillars`, {
     method: 'POST',
     body: JSON.stringify({ ...pillar, slug: pillar.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') }),
-  });
+  }), queryKeys.pillars(siteId));
 }
 
 // Watch Topics
-export async function fetchWatchTopics(siteId: string, includeInactive = false): Promise<WatchTopic[]> {
+export async function fetchWatchTopics(siteId: string, includeInactive = false, opts?: RequestOpts): Promise<WatchTopic[]> {
   const params = includeInactive ? '?active=false' : '';
-  const data = await apiFetch<{ watch_topics: WatchTopic[] }>(`/api/sites/${siteId}/watch-topics${params}`);
+  const data = await apiFetch(`/api/sites/${siteId}/watch-topics${params}`, {
+    ...opts,
+    decode: shape<{ watch_topics: WatchTopic[] }>({ watch_topics: arrayOf(decodeWatchTopic) }),
+  });
   return data.watch_topics;
 }
 
+// JSON columns are stored as text, so they go back the way they came
+const WATCH_TOPIC_JSON_COLUMNS = ['keywords', 'source_types', 'source_config'];
+
+function encodeWatchTopic(fields: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [
+    key,
+    WATCH_TOPIC_JSON_COLUMNS.includes(key) && value !== undefined ? JSON.stringify(value) : value,
+  ]));
+}
+
 export async function createWatchTopic(siteId: string, topic: {
   name: string;
   description?: string;
-  keywords?: string;
-  source_types?: string;
+  keywords?: string[];
+  source_types?: string[];
   scan_interval_hours?: number;
   max_ideas_per_scan?: number;
   pillar_id?: string;
 }): Promise<{ id: string; success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/watch-topics`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/watch-topics`, {
     method: 'POST',
-    body: JSON.stringify(topic),
-  });
+    body: JSON.stringify(encodeWatchTopic(topic)),
+  }), queryKeys.watchTopics(siteId));
 }
 
 export async function updateWatchTopic(siteId: string, id: string, updates: Partial<WatchTopic>): Promise<{ success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/watch-topics/${id}`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/watch-topics/${id}`, {
     method: 'PUT',
-    body: JSON.stringify(updates),
-  });
+    body: JSON.stringify(encodeWatchTopic(updates)),
+  }), queryKeys.watchTopics(siteId));
 }
 
 export async function deleteWatchTopic(siteId: string, id: string): Promise<{ success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/watch-topics/${id}`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/watch-topics/${id}`, {
     method: 'DELETE',
-  });
+  }), queryKeys.watchTopics(siteId));
 }
 
 // Ideas
-export async function fetchIdeas(siteId: string, filters?: { status?: string; watch_topic_id?: string; min_score?: string; limit?: number }): Promise<Idea[]> {
+export async function fetchIdeas(siteId: string, filters?: { status?: string; watch_topic_id?: string; min_score?: string; limit?: number }, opts?: RequestOpts): Promise<Idea[]> {
   const params = new URLSearchParams();
   if (filters?.status) params.set('status', filters.status);
   if (filters?.watch_topic_id) params.set('watch_topic_id', filters.watch_topic_id);
   if (filters?.min_score) params.set('min_score', filters.min_score);
   if (filters?.limit) params.set('limit', String(filters.limit));
   const qs = params.toString();
-  const data = await apiFetch<{ ideas: Idea[] }>(`/api/sites/${siteId}/ideas${qs ? `?${qs}` : ''}`);
+  const data = await apiFetch(`/api/sites/${siteId}/ideas${qs ? `?${qs}` : ''}`, {
+    ...opts,
+    decode: shape<{ ideas: Idea[] }>({ ideas: arrayOf(decodeIdea) }),
+  });
   return data.ideas;
 }
 
 export async function updateIdea(siteId: string, id: string, updates: Partial<Idea>): Promise<{ success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/ideas/${id}`, {
+  const { source_urls, ...rest } = updates;
+  return mutate(apiFetch(`/api/sites/${siteId}/ideas/${id}`, {
     method: 'PUT',
-    body: JSON.stringify(updates),
-  });
+    body: JSON.stringify(source_urls ? { ...rest, source_urls: JSON.stringify(source_urls) } : rest),
+  }), queryKeys.ideas(siteId));
 }
 
 export async function approveIdea(siteId: string, id: string): Promise<{ success: boolean; topic_id: string }> {
-  return apiFetch(`/api/sites/${siteId}/ideas/${id}/approve`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/ideas/${id}/approve`, {
     method: 'POST',
-  });
+  }), queryKeys.ideas(siteId), queryKeys.topics(siteId));
 }
 
 export async function dismissIdea(siteId: string, id: string, reason?: string): Promise<{ success: boolean }> {
-  return apiFetch(`/api/sites/${siteId}/ideas/${id}/dismiss`, {
+  return mutate(apiFetch(`/api/sites/${siteId}/ideas/${id}/dismiss`, {
     method: 'POST',
     body: JSON.stringify({ reason }),
-  });
+  }), queryKeys.ideas(siteId));
 }
 
 // Idea Scans
 export async function triggerIdeaScan(siteId?: string, watchTopicId?: string): Promise<{ scan_runs: number; total_ideas_found: number; total_ideas_stored: number; total_ideas_deduped: number }> {
-  return apiFetch('/api/ideas/scan', {
+  return mutate(apiFetch('/api/ideas/scan', {
     method: 'POST',
     body: JSON.stringify({ site_id: siteId, watch_topic_id: watchTopicId }),
-  });
+  }), queryKeys.ideas(siteId), queryKeys.scanRuns(siteId), queryKeys.watchTopics(siteId));
 }
 
-export async function fetchScanRuns(siteId?: string, watchTopicId?: string, limit?: number): Promise<IdeaScanRun[]> {
+export async function fetchScanRuns(siteId?: string, watchTopicId?: string, limit?: number, opts?: RequestOpts): Promise<IdeaScanRun[]> {
   const params = new URLSearchParams();
   if (siteId) params.set('site_id', siteId);
   if (watchTopicId) params.set('watch_topic_id', watchTopicId);
   if (limit) params.set('limit', String(limit));
   const qs = params.toString();
-  const data = await apiFetch<{ scan_runs: IdeaScanRun[] }>(`/api/ideas/scan-runs${qs ? `?${qs}` : ''}`);
+  const data = await apiFetch(`/api/ideas/scan-runs${qs ? `?${qs}` : ''}`, {
+    ...opts,
+    decode: shape<{ scan_runs: IdeaScanRun[] }>({ scan_runs: arrayOf(decodeScanRun) }),
+  });
   return data.scan_runs;
 }
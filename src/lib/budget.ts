@@ -0,0 +1,76 @@
+import type { Trace, IdeaScanRun } from './types';
+import { toMicros, formatMicros } from './costAnalytics';
+
+export interface BudgetStatus {
+  budgetMicros: number;
+  spentMicros: number;
+  remainingMicros: number;
+  // Month-end spend if the rest of the month runs at the average daily rate so far
+  projectedMicros: number;
+  dayOfMonth: number;
+  daysInMonth: number;
+  // Running total at the end of each day so far, starting with the 1st
+  burn: number[];
+}
+
+// Budgets run per calendar month in UTC, the same clock traces are stamped with
+export function monthStart(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 8) + '01';
+}
+
+export function budgetStatus(budgetUsd: number, traces: Trace[], now = Date.now()): BudgetStatus {
+  const date = new Date(now);
+  const dayOfMonth = date.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const start = monthStart(now);
+
+  const daily = new Array<number>(dayOfMonth).fill(0);
+  for (const t of traces) {
+    const day = (t.created_at || '').slice(0, 10);
+    if (day < start) continue;
+    const index = Number(day.slice(8, 10)) - 1;
+    if (index < dayOfMonth) daily[index] += toMicros(t.estimated_cost_usd);
+  }
+  const burn = daily.map((_, i) => daily.slice(0, i + 1).reduce((sum, v) => sum + v, 0));
+  const spentMicros = burn[burn.length - 1] || 0;
+  const budgetMicros = toMicros(budgetUsd);
+
+  return {
+    budgetMicros,
+    spentMicros,
+    remainingMicros: budgetMicros - spentMicros,
+    projectedMicros: Math.round((spentMicros / dayOfMonth) * daysInMonth),
+    dayOfMonth,
+    daysInMonth,
+    burn,
+  };
+}
+
+// Mean total cost of the runs in the history, failed runs included since they're billed too
+export function estimateRunCost(traces: Trace[]): number | null {
+  const perRun = new Map<string, number>();
+  for (const t of traces) perRun.set(t.run_id, (perRun.get(t.run_id) || 0) + toMicros(t.estimated_cost_usd));
+  if (perRun.size === 0) return null;
+  return Math.round([...perRun.values()].reduce((sum, v) => sum + v, 0) / perRun.size);
+}
+
+// Scans only record tokens, so they're priced at the site's average cost per pipeline token
+export function estimateScanCost(scanRuns: IdeaScanRun[], traces: Trace[]): number | null {
+  const scans = scanRuns.filter((r) => r.tokens_used > 0);
+  const tokens = traces.reduce((sum, t) => sum + (t.total_tokens || 0), 0);
+  if (scans.length === 0 || tokens === 0) return null;
+  const costPerToken = traces.reduce((sum, t) => sum + toMicros(t.estimated_cost_usd), 0) / tokens;
+  const tokensPerScan = scans.reduce((sum, r) => sum + r.tokens_used, 0) / scans.length;
+  return Math.round(tokensPerScan * costPerToken);
+}
+
+// Text for a confirm() before spending, or null when the estimate fits in what's left
+export function budgetWarning(status: BudgetStatus | null, estimateMicros: number | null, action: string): string | null {
+  if (!status) return null;
+  const budget = formatMicros(status.budgetMicros);
+  if (status.remainingMicros <= 0) {
+    return `This month's ${budget} budget is already used up (${formatMicros(status.spentMicros)} spent).\n\nStart the ${action} anyway?`;
+  }
+  if (estimateMicros === null || estimateMicros <= status.remainingMicros) return null;
+  return `A ${action} usually costs about ${formatMicros(estimateMicros)}, but only ${formatMicros(status.remainingMicros)} of this month's ${budget} budget is left.\n\nStart it anyway?`;
+}
@@ -0,0 +1,106 @@
+import type { Content, Topic } from './types';
+
+export type CalendarView = 'month' | 'week';
+
+export interface CalendarItem {
+  id: string;
+  kind: 'content' | 'topic';
+  title: string;
+  // Picks the colour: the content's own stage, or research for a topic still waiting to run
+  stage: string;
+  at: string;
+  // Published items have already gone out and stay where they are
+  movable: boolean;
+}
+
+// Calendar days are the viewer's local days, unlike the UTC buckets in the analytics
+export function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function parseDay(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function calendarItems(content: Content[], topics: Topic[]): CalendarItem[] {
+  const items: CalendarItem[] = [];
+  for (const c of content) {
+    const title = c.title || 'Untitled';
+    if (c.stage === 'published' && c.published_at) {
+      items.push({ id: c.id, kind: 'content', title, stage: c.stage, at: c.published_at, movable: false });
+    } else if (c.scheduled_publish_at) {
+      items.push({ id: c.id, kind: 'content', title, stage: c.stage, at: c.scheduled_publish_at, movable: true });
+    }
+  }
+  for (const t of topics) {
+    if (t.scheduled_at) items.push({ id: t.id, kind: 'topic', title: t.title, stage: 'research', at: t.scheduled_at, movable: true });
+  }
+  return items.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+// Monday on or before the date
+function weekStart(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+}
+
+// Whole Monday-to-Sunday weeks covering the anchor's month, or just the anchor's week
+export function calendarDays(anchor: Date, view: CalendarView): string[] {
+  const first = weekStart(view === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor);
+  const last = view === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0) : first;
+  const days: string[] = [];
+  for (let d = first; d <= last || days.length % 7 !== 0; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+    days.push(dayKey(d));
+  }
+  return days;
+}
+
+export function shiftAnchor(anchor: Date, view: CalendarView, delta: number): Date {
+  return view === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + delta, 1)
+    : new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + delta * 7);
+}
+
+// Moves a timestamp to another day, keeping its local time of day
+export function moveToDay(at: string, day: string): string {
+  const date = new Date(at);
+  const target = parseDay(day);
+  date.setFullYear(target.getFullYear(), target.getMonth(), target.getDate());
+  return date.toISOString();
+}
+
+export interface CadenceFlags {
+  // Most publications a day should take to keep to the weekly target
+  dailyCap: number;
+  // Longest run of empty days the target allows
+  maxGapDays: number;
+  overbooked: Set<string>;
+  gaps: Set<string>;
+}
+
+// Judges the visible days against a weekly target. Only content counts, since a topic is a plan
+// rather than a publication, and gaps are only flagged from today on, where they can still be filled.
+export function cadenceFlags(items: CalendarItem[], days: string[], perWeek: number, today: string): CadenceFlags {
+  const dailyCap = Math.ceil(perWeek / 7);
+  const maxGapDays = Math.ceil(7 / perWeek);
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    if (item.kind !== 'content') continue;
+    const key = dayKey(new Date(item.at));
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const overbooked = new Set(days.filter((d) => (counts.get(d) || 0) > dailyCap));
+  const gaps = new Set<string>();
+  let run: string[] = [];
+  const closeRun = () => {
+    if (run.length > maxGapDays) run.forEach((d) => gaps.add(d));
+    run = [];
+  };
+  for (const day of days) {
+    if (day < today || counts.get(day)) closeRun();
+    else run.push(day);
+  }
+  closeRun();
+  return { dailyCap, maxGapDays, overbooked, gaps };
+}
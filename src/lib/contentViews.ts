@@ -0,0 +1,130 @@
+// Table configuration for ContentListPage. Everything lives in the query string so a link reproduces the view.
+
+export const CONTENT_COLUMNS = [
+  { id: 'title', label: 'Title' },
+  { id: 'stage', label: 'Stage' },
+  { id: 'quality_score', label: 'Quality' },
+  { id: 'word_count', label: 'Words' },
+  { id: 'reading_time', label: 'Read time' },
+  { id: 'category', label: 'Category' },
+  { id: 'created_at', label: 'Created' },
+  { id: 'scheduled_publish_at', label: 'Scheduled' },
+  { id: 'published_at', label: 'Published' },
+] as const;
+
+export type ContentColumnId = (typeof CONTENT_COLUMNS)[number]['id'];
+
+export const DEFAULT_COLUMNS: ContentColumnId[] = ['title', 'stage', 'quality_score', 'word_count', 'created_at'];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ContentFilters {
+  stage?: string;
+  minQuality?: number;
+  maxQuality?: number;
+  category?: string;
+  tag?: string;
+  requiresReview?: boolean;
+  scheduledFrom?: string;
+  scheduledTo?: string;
+  voiceProfileId?: string;
+}
+
+export interface ContentView {
+  filters: ContentFilters;
+  sort: ContentColumnId;
+  dir: SortDirection;
+  columns: ContentColumnId[];
+}
+
+const COLUMN_IDS = CONTENT_COLUMNS.map((c) => c.id) as readonly string[];
+
+function isColumnId(value: string): value is ContentColumnId {
+  return COLUMN_IDS.includes(value);
+}
+
+function numberParam(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function parseView(params: URLSearchParams): ContentView {
+  const sort = params.get('sort') || '';
+  const columns = (params.get('cols') || '').split(',').filter(isColumnId);
+  return {
+    filters: {
+      stage: params.get('stage') || undefined,
+      minQuality: numberParam(params.get('q_min')),
+      maxQuality: numberParam(params.get('q_max')),
+      category: params.get('category') || undefined,
+      tag: params.get('tag') || undefined,
+      requiresReview: params.get('review') === '1' || undefined,
+      scheduledFrom: params.get('sched_from') || undefined,
+      scheduledTo: params.get('sched_to') || undefined,
+      voiceProfileId: params.get('voice') || undefined,
+    },
+    sort: isColumnId(sort) ? sort : 'created_at',
+    dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    columns: columns.length ? columns : DEFAULT_COLUMNS,
+  };
+}
+
+// Defaults are left out so shared links stay short
+export function viewToParams(view: ContentView): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = view;
+  if (filters.stage) params.set('stage', filters.stage);
+  if (filters.minQuality !== undefined) params.set('q_min', String(filters.minQuality));
+  if (filters.maxQuality !== undefined) params.set('q_max', String(filters.maxQuality));
+  if (filters.category) params.set('category', filters.category);
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.requiresReview) params.set('review', '1');
+  if (filters.scheduledFrom) params.set('sched_from', filters.scheduledFrom);
+  if (filters.scheduledTo) params.set('sched_to', filters.scheduledTo);
+  if (filters.voiceProfileId) params.set('voice', filters.voiceProfileId);
+  if (view.sort !== 'created_at') params.set('sort', view.sort);
+  if (view.dir !== 'desc') params.set('dir', view.dir);
+  if (view.columns.join(',') !== DEFAULT_COLUMNS.join(',')) params.set('cols', view.columns.join(','));
+  return params;
+}
+
+export function activeFilterCount(filters: ContentFilters): number {
+  // Stage has its own control, so it isn't counted here
+  return Object.entries(filters).filter(([key, value]) => key !== 'stage' && value !== undefined).length;
+}
+
+// ============================================================
+// Saved views
+// ============================================================
+
+export interface SavedView {
+  name: string;
+  query: string;
+}
+
+function storageKey(siteId: string) {
+  return `content_views:${siteId}`;
+}
+
+export function loadSavedViews(siteId: string): SavedView[] {
+  try {
+    const raw = localStorage.getItem(storageKey(siteId));
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveView(siteId: string, name: string, query: string): SavedView[] {
+  const views = [...loadSavedViews(siteId).filter((v) => v.name !== name), { name, query }];
+  views.sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(storageKey(siteId), JSON.stringify(views));
+  return views;
+}
+
+export function deleteSavedView(siteId: string, name: string): SavedView[] {
+  const views = loadSavedViews(siteId).filter((v) => v.name !== name);
+  localStorage.setItem(storageKey(siteId), JSON.stringify(views));
+  return views;
+}
@@ -0,0 +1,134 @@
+import { fetchAllPages, fetchContentPage, type RequestOpts } from './api';
+import type { Trace, Content } from './types';
+import { DAY_MS } from './utils';
+import { fetchTracesForSites, type SiteTrace } from './traceStats';
+
+// Costs are summed in whole micro-dollars so every breakdown adds up to the grand total exactly
+export function toMicros(usd: number | null): number {
+  return Math.round((usd || 0) * 1_000_000);
+}
+
+export function formatMicros(micros: number, digits = 2): string {
+  return `$${(micros / 1_000_000).toFixed(digits)}`;
+}
+
+export interface CostGroup {
+  key: string;
+  costMicros: number;
+  inputTokens: number;
+  outputTokens: number;
+  calls: number;
+}
+
+function emptyGroup(key: string): CostGroup {
+  return { key, costMicros: 0, inputTokens: 0, outputTokens: 0, calls: 0 };
+}
+
+export function groupCosts<T extends Trace>(traces: T[], keyOf: (trace: T) => string): CostGroup[] {
+  const groups = new Map<string, CostGroup>();
+  for (const t of traces) {
+    const key = keyOf(t);
+    const group = groups.get(key) || emptyGroup(key);
+    group.costMicros += toMicros(t.estimated_cost_usd);
+    group.inputTokens += t.input_tokens || 0;
+    group.outputTokens += t.output_tokens || 0;
+    group.calls++;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.costMicros - a.costMicros || a.key.localeCompare(b.key));
+}
+
+export function totalCost(traces: Trace[]): CostGroup {
+  return groupCosts(traces, () => 'total')[0] || emptyGroup('total');
+}
+
+function dayOf(trace: Trace): string {
+  return (trace.created_at || '').slice(0, 10);
+}
+
+// One entry per UTC day in [from, to], including days with no spend
+export function dailySpend(traces: Trace[], from: string, to: string): { date: string; costMicros: number }[] {
+  const byDay = new Map(groupCosts(traces, dayOf).map((g) => [g.key, g.costMicros]));
+  const days: { date: string; costMicros: number }[] = [];
+  for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+    const date = new Date(t).toISOString().slice(0, 10);
+    days.push({ date, costMicros: byDay.get(date) || 0 });
+  }
+  return days;
+}
+
+export interface WeekComparison {
+  current: CostGroup;
+  previous: CostGroup;
+  // Null when last week had nothing to compare against
+  change: number | null;
+}
+
+// The seven days ending today against the seven before, per group
+export function weekOverWeek<T extends Trace>(traces: T[], keyOf: (trace: T) => string, now = Date.now()): Record<string, WeekComparison> {
+  const today = Date.parse(new Date(now).toISOString().slice(0, 10));
+  const weeksAgo = (t: Trace) => Math.floor((today - Date.parse(dayOf(t))) / (7 * DAY_MS));
+  const current = new Map(groupCosts(traces.filter((t) => weeksAgo(t) === 0), keyOf).map((g) => [g.key, g]));
+  const previous = new Map(groupCosts(traces.filter((t) => weeksAgo(t) === 1), keyOf).map((g) => [g.key, g]));
+  const keys = new Set([...current.keys(), ...previous.keys()]);
+  return Object.fromEntries([...keys].map((key) => {
+    const cur = current.get(key) || emptyGroup(key);
+    const prev = previous.get(key) || emptyGroup(key);
+    return [key, { current: cur, previous: prev, change: prev.costMicros ? (cur.costMicros - prev.costMicros) / prev.costMicros : null }];
+  }));
+}
+
+export interface ArticleEconomics {
+  articles: number;
+  words: number;
+  costMicros: number;
+  perArticleMicros: number | null;
+  per1kWordsMicros: number | null;
+}
+
+// Spend on the runs that produced published articles, counted from the same traces as every other total.
+// A run that straddles the start of the window only contributes the calls inside it.
+export function articleEconomics(traces: Trace[], published: Content[]): ArticleEconomics {
+  const byRun = new Map(published.filter((c) => c.run_id).map((c) => [c.run_id!, c]));
+  const produced = new Set<Content>();
+  let costMicros = 0;
+  for (const t of traces) {
+    const content = byRun.get(t.run_id);
+    if (!content) continue;
+    produced.add(content);
+    costMicros += toMicros(t.estimated_cost_usd);
+  }
+  const words = [...produced].reduce((sum, c) => sum + (c.word_count || 0), 0);
+  return {
+    articles: produced.size,
+    words,
+    costMicros,
+    perArticleMicros: produced.size ? Math.round(costMicros / produced.size) : null,
+    per1kWordsMicros: words ? Math.round((costMicros / words) * 1000) : null,
+  };
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+export interface CostData {
+  traces: SiteTrace[];
+  published: Content[];
+}
+
+function loadPublished(siteId: string, opts?: RequestOpts): Promise<Content[]> {
+  return fetchAllPages(
+    (cursor, limit) => fetchContentPage({ siteId, limit, cursor, filters: { stage: 'published' } }, opts),
+    (page) => page.content,
+  );
+}
+
+// Traces for every site and the published articles to attribute them to, all in flight together
+export async function loadCostData(siteIds: string[], from: string, opts?: RequestOpts): Promise<CostData> {
+  const [traces, published] = await Promise.all([
+    fetchTracesForSites(siteIds, { from }, opts),
+    Promise.all(siteIds.map((siteId) => loadPublished(siteId, opts))),
+  ]);
+  return { traces, published: published.flat() };
+}
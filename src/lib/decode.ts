@@ -0,0 +1,170 @@
+import { SchemaError } from './errors';
+import type { Topic, Content, Revision, ReviewMessage, ReviewAction, WatchTopic, IdeaScanRun, Idea, SearchHit, PipelineRun } from './types';
+
+// Decoders validate a value at the API boundary and return it typed, or throw a SchemaError naming the field
+export type Decoder<T> = (value: unknown, field: string) => T;
+
+function kindOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return value.length > 40 ? `"${value.slice(0, 40)}…"` : `"${value}"`;
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function fail(field: string, expected: string, value: unknown): never {
+  throw new SchemaError(field, expected, kindOf(value));
+}
+
+export const string: Decoder<string> = (value, field) =>
+  typeof value === 'string' ? value : fail(field, 'a string', value);
+
+export const number: Decoder<number> = (value, field) =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : fail(field, 'a number', value);
+
+export const unknownValue: Decoder<unknown> = (value) => value;
+
+export function nullable<T>(decode: Decoder<T>): Decoder<T | null> {
+  return (value, field) => (value === null || value === undefined ? null : decode(value, field));
+}
+
+export function optional<T>(decode: Decoder<T>): Decoder<T | undefined> {
+  return (value, field) => (value === undefined ? undefined : decode(value, field));
+}
+
+export function arrayOf<T>(decode: Decoder<T>): Decoder<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) return fail(field, 'an array', value);
+    return value.map((item, i) => decode(item, `${field}[${i}]`));
+  };
+}
+
+export function recordOf<T>(decode: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(field, 'an object', value);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decode(v, `${field}.${k}`)]));
+  };
+}
+
+// Checks the listed fields; anything else the worker sends passes through untouched
+export function shape<T>(fields: { [K in keyof T]?: Decoder<T[K]> }): Decoder<T> {
+  return (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(field, 'an object', value);
+    const out: Record<string, unknown> = { ...value };
+    for (const [key, decode] of Object.entries(fields) as [string, Decoder<unknown>][]) {
+      out[key] = decode(out[key], field ? `${field}.${key}` : key);
+    }
+    return out as T;
+  };
+}
+
+// D1 stores arrays and objects as TEXT; null or empty columns decode to `empty`
+export function jsonColumn<T>(decode: Decoder<T>, empty: T): Decoder<T> {
+  return (value, field) => {
+    if (value === null || value === undefined || value === '') return empty;
+    // Some endpoints already hand back the parsed value
+    if (typeof value !== 'string') return decode(value, field);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return fail(field, 'JSON text', value);
+    }
+    return parsed === null ? empty : decode(parsed, field);
+  };
+}
+
+// Runs a decoder over a whole response body so errors carry the endpoint they came from
+export function decodeResponse<T>(path: string, body: unknown, decode: Decoder<T>): T {
+  try {
+    return decode(body, '');
+  } catch (e) {
+    if (e instanceof SchemaError) throw new SchemaError(e.field || 'response', e.expected, e.received, path);
+    throw e;
+  }
+}
+
+// ============================================================
+// Entities
+// ============================================================
+
+const stringList = jsonColumn(arrayOf(string), []);
+
+export const decodeTopic = shape<Topic>({
+  id: string,
+  site_id: string,
+  title: string,
+  target_keywords: stringList,
+});
+
+export const decodeContent = shape<Content>({
+  id: string,
+  site_id: string,
+  stage: string,
+  title: nullable(string),
+  tags: stringList,
+  platforms: jsonColumn(recordOf(unknownValue), {}),
+  published_urls: jsonColumn(recordOf(string), {}),
+});
+
+export const decodeReviewAction = shape<ReviewAction>({
+  action: string,
+  details: string,
+});
+
+export const decodeRevision = shape<Revision>({
+  id: string,
+  content_id: string,
+  revision_number: number,
+  fields_changed: stringList,
+});
+
+export const decodeReviewMessage = shape<ReviewMessage>({
+  id: string,
+  content_id: string,
+  message: string,
+  actions_taken: jsonColumn(arrayOf(decodeReviewAction), []),
+});
+
+export const decodeWatchTopic = shape<WatchTopic>({
+  id: string,
+  site_id: string,
+  name: string,
+  keywords: stringList,
+  source_types: stringList,
+  source_config: jsonColumn(recordOf(unknownValue), {}),
+});
+
+export const decodeScanRun = shape<IdeaScanRun>({
+  id: string,
+  site_id: string,
+  status: string,
+  source_types_used: stringList,
+});
+
+export const decodeIdea = shape<Idea>({
+  id: string,
+  site_id: string,
+  title: string,
+  source_urls: stringList,
+});
+
+export const decodeSearchHit = shape<SearchHit>({
+  id: string,
+  title: string,
+  snippet: nullable(string),
+  field: string,
+  status: string,
+});
+
+export const decodeRun = shape<PipelineRun>({
+  id: string,
+  site_id: string,
+  content_id: nullable(string),
+  status: string,
+  stages: arrayOf(string),
+  started_at: string,
+  finished_at: nullable(string),
+  total_tokens: number,
+  total_latency_ms: number,
+  total_cost_usd: number,
+});
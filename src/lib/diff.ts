@@ -0,0 +1,62 @@
+export type DiffOp = 'same' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  // 1-based line numbers on each side; null for the side the line isn't on
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+// Line diff from a longest-common-subsequence table; articles are a few hundred lines at most
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const width = b.length + 1;
+  const lcs = new Int32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: 'same', text: a[i], oldLine: ++i, newLine: ++j });
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Removals go first so a changed line reads as old then new
+      lines.push({ op: 'remove', text: a[i], oldLine: ++i, newLine: null });
+    } else {
+      lines.push({ op: 'add', text: b[j], oldLine: null, newLine: ++j });
+    }
+  }
+  return lines;
+}
+
+export type DiffHunk = { kind: 'lines'; lines: DiffLine[] } | { kind: 'skip'; count: number };
+
+// Collapses long unchanged stretches, keeping `context` lines around each change
+export function collapseUnchanged(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.op === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) keep[k] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  lines.forEach((line, index) => {
+    const last = hunks[hunks.length - 1];
+    if (keep[index]) {
+      if (last?.kind === 'lines') last.lines.push(line);
+      else hunks.push({ kind: 'lines', lines: [line] });
+    } else if (last?.kind === 'skip') {
+      last.count++;
+    } else {
+      hunks.push({ kind: 'skip', count: 1 });
+    }
+  });
+  return hunks;
+}
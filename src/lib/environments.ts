@@ -0,0 +1,80 @@
+export interface Environment {
+  id: string;
+  label: string;
+  defaultBaseUrl: string;
+}
+
+export const ENVIRONMENTS: Environment[] = [
+  { id: 'production', label: 'Production', defaultBaseUrl: 'https://content-pipeline.roccobot.workers.dev' },
+  { id: 'staging', label: 'Staging', defaultBaseUrl: 'https://content-pipeline-staging.roccobot.workers.dev' },
+  { id: 'local', label: 'Local worker', defaultBaseUrl: 'http://localhost:8787' },
+  // Served in the browser from src/mock; any passphrase is accepted
+  { id: 'mock', label: 'Mock', defaultBaseUrl: 'mock://pipeline' },
+];
+
+export function isMockBaseUrl(url: string): boolean {
+  return url.startsWith('mock://');
+}
+
+const ACTIVE_KEY = 'pipeline_env';
+const PROFILES_KEY = 'pipeline_profiles';
+const LEGACY_TOKEN_KEY = 'pipeline_token';
+
+// Per-environment settings kept in localStorage, keyed by environment id
+interface StoredProfile {
+  baseUrl?: string;
+  token?: string;
+}
+
+function readProfiles(): Record<string, StoredProfile> {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const profiles: Record<string, StoredProfile> = raw ? JSON.parse(raw) : {};
+    // Tokens saved before profiles existed belong to production
+    const legacy = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (legacy && !profiles.production?.token) {
+      profiles.production = { ...profiles.production, token: legacy };
+    }
+    return profiles;
+  } catch {
+    return {};
+  }
+}
+
+function updateProfile(envId: string, patch: StoredProfile) {
+  const profiles = readProfiles();
+  profiles[envId] = { ...profiles[envId], ...patch };
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  localStorage.removeItem(LEGACY_TOKEN_KEY);
+}
+
+export function findEnvironment(id: string): Environment | undefined {
+  return ENVIRONMENTS.find((env) => env.id === id);
+}
+
+export function getEnvironment(): Environment {
+  return findEnvironment(localStorage.getItem(ACTIVE_KEY) || '') || ENVIRONMENTS[0];
+}
+
+export function setEnvironment(envId: string) {
+  localStorage.setItem(ACTIVE_KEY, envId);
+}
+
+export function getBaseUrl(envId = getEnvironment().id): string {
+  const stored = readProfiles()[envId]?.baseUrl;
+  return stored || findEnvironment(envId)?.defaultBaseUrl || ENVIRONMENTS[0].defaultBaseUrl;
+}
+
+export function setBaseUrl(envId: string, baseUrl: string) {
+  const env = findEnvironment(envId);
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  updateProfile(envId, { baseUrl: trimmed && trimmed !== env?.defaultBaseUrl ? trimmed : undefined });
+}
+
+export function getProfileToken(envId = getEnvironment().id): string | null {
+  return readProfiles()[envId]?.token || null;
+}
+
+export function setProfileToken(envId: string, token: string | null) {
+  updateProfile(envId, { token: token || undefined });
+}
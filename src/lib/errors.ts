@@ -0,0 +1,108 @@
+export class ApiError extends Error {
+  status: number;
+  code: string | null;
+  body: unknown;
+  path: string;
+
+  constructor(status: number, path: string, body: unknown, message?: string) {
+    super(message || errorDetail(body) || `API ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.path = path;
+    this.body = body;
+    this.code = errorCode(body);
+  }
+}
+
+// Worker errors come back as { error, code? } or { message }, but plain text is possible too
+function errorDetail(body: unknown): string | null {
+  if (typeof body === 'string') return body.trim() || null;
+  if (body && typeof body === 'object') {
+    const obj = body as Record<string, unknown>;
+    if (typeof obj.error === 'string') return obj.error;
+    if (typeof obj.message === 'string') return obj.message;
+  }
+  return null;
+}
+
+function errorCode(body: unknown): string | null {
+  if (body && typeof body === 'object') {
+    const code = (body as Record<string, unknown>).code;
+    if (typeof code === 'string') return code;
+  }
+  return null;
+}
+
+// A response that parsed fine but doesn't have the shape the dashboard was built against
+export class SchemaError extends Error {
+  path: string | null;
+  field: string;
+  expected: string;
+  received: string;
+
+  constructor(field: string, expected: string, received: string, path: string | null = null) {
+    super(`${path ? `${path}: ` : ''}${field} should be ${expected} but was ${received}`);
+    this.name = 'SchemaError';
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+    this.path = path;
+  }
+}
+
+export function parseErrorBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export type ErrorKind = 'auth' | 'not_found' | 'conflict' | 'rate_limited' | 'server' | 'network' | 'schema' | 'unknown';
+
+export interface ErrorDescription {
+  kind: ErrorKind;
+  title: string;
+  message: string;
+  retryable: boolean;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+export function describeError(error: unknown): ErrorDescription {
+  if (error instanceof ApiError) {
+    const message = error.message;
+    if (error.status === 401 || error.status === 403) {
+      return { kind: 'auth', title: 'Session expired', message: 'The passphrase was rejected. Sign in again to continue.', retryable: false };
+    }
+    if (error.status === 404) {
+      return { kind: 'not_found', title: 'Not found', message, retryable: false };
+    }
+    if (error.status === 409) {
+      return { kind: 'conflict', title: 'Conflict', message: `${message} — reload to see the latest state.`, retryable: true };
+    }
+    if (error.status === 429) {
+      return { kind: 'rate_limited', title: 'Too many requests', message: 'The pipeline is rate limited right now. Try again in a moment.', retryable: true };
+    }
+    if (error.status >= 500) {
+      return { kind: 'server', title: `Server error (${error.status})`, message, retryable: true };
+    }
+    return { kind: 'unknown', title: `Request failed (${error.status})`, message, retryable: false };
+  }
+  if (error instanceof SchemaError) {
+    return { kind: 'schema', title: 'Unexpected response from the API', message: `${error.message}. The worker may be running a newer schema than this dashboard.`, retryable: false };
+  }
+  // fetch rejects with a TypeError when the worker can't be reached at all
+  if (error instanceof TypeError) {
+    return { kind: 'network', title: 'Connection failed', message: error.message, retryable: true };
+  }
+  return { kind: 'unknown', title: 'Something went wrong', message: errorMessage(error), retryable: true };
+}
@@ -0,0 +1,110 @@
+import { fetchContentPage, fetchContentMetrics } from './api';
+import type { Content, ContentMetrics } from './types';
+import type { ContentFilters, SortDirection } from './contentViews';
+
+export type ExportFormat = 'csv' | 'json';
+
+// Every Content column, in schema order
+const CONTENT_FIELDS: (keyof Content)[] = [
+  'id', 'site_id', 'topic_id', 'voice_profile_id', 'stage', 'run_id', 'title', 'slug', 'excerpt', 'summary',
+  'draft_md', 'final_md', 'meta_description', 'meta_keywords', 'og_image_prompt', 'category', 'tags',
+  'word_count', 'reading_time', 'quality_score', 'platforms', 'requires_review', 'reviewed_at', 'scheduled_publish_at',
+  'published_at', 'published_urls', 'created_at', 'updated_at',
+];
+
+const CLAIM_STATUSES = ['pending', 'verified', 'disputed', 'unverifiable'];
+const RELIABILITIES = ['high', 'medium', 'low'];
+
+type ExportRow = Record<string, unknown>;
+
+function toRow(content: Content, metrics: ContentMetrics | undefined): ExportRow {
+  const row: ExportRow = {};
+  for (const field of CONTENT_FIELDS) row[field] = content[field] ?? null;
+  for (const status of CLAIM_STATUSES) row[`claims_${status}`] = metrics?.claims_by_status[status] ?? 0;
+  for (const reliability of RELIABILITIES) row[`sources_${reliability}`] = metrics?.sources_by_reliability[reliability] ?? 0;
+  row.trace_tokens = metrics?.total_tokens ?? 0;
+  // Summed floats pick up noise past the sixth decimal
+  row.trace_cost_usd = Number((metrics?.cost_usd ?? 0).toFixed(6));
+  return row;
+}
+
+const EXPORT_HEADERS = Object.keys(toRow({} as Content, undefined));
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: unknown[]): string {
+  return values.map(csvCell).join(',') + '\r\n';
+}
+
+export interface ExportProgress {
+  exported: number;
+  // Null when the API didn't report a total
+  total: number | null;
+}
+
+interface ExportOptions {
+  siteId: string;
+  format: ExportFormat;
+  filters?: ContentFilters;
+  sort?: string;
+  dir?: SortDirection;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+// Pages through the filtered list and builds the file one page at a time, so memory holds
+// text chunks rather than every row object and the tab stays responsive between requests
+export async function exportContent({ siteId, format, filters, sort, dir, signal, onProgress }: ExportOptions): Promise<Blob> {
+  const chunks: string[] = format === 'csv' ? ['\uFEFF', csvLine(EXPORT_HEADERS)] : ['['];
+  let cursor: string | null = null;
+  let exported = 0;
+  let total: number | null = null;
+
+  do {
+    const page = await fetchContentPage({ siteId, limit: EXPORT_PAGE_SIZE, cursor, sort, dir, filters }, { signal });
+    const metrics = page.content.length ? await fetchContentMetrics(page.content.map((c) => c.id), { signal }) : [];
+    const byId = new Map(metrics.map((m) => [m.content_id, m]));
+
+    for (const content of page.content) {
+      const row = toRow(content, byId.get(content.id));
+      if (format === 'csv') {
+        chunks.push(csvLine(EXPORT_HEADERS.map((h) => row[h])));
+      } else {
+        chunks.push(`${exported > 0 ? ',' : ''}\n  ${JSON.stringify(row)}`);
+      }
+      exported++;
+    }
+
+    total = total ?? page.total;
+    cursor = page.next_cursor;
+    onProgress?.({ exported, total });
+  } while (cursor);
+
+  if (format === 'json') chunks.push(exported > 0 ? '\n]\n' : ']\n');
+  return new Blob(chunks, { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+}
+
+export function exportFilename(prefix: string, format: ExportFormat, at = new Date()): string {
+  return `${prefix}-content-${at.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
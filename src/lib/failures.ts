@@ -0,0 +1,110 @@
+import { fetchRuns, type RequestOpts } from './api';
+import type { PipelineRun } from './types';
+import { DAY_MS, chunk } from './utils';
+import { fetchTracesForSites, type SiteTrace } from './traceStats';
+
+// Masks the parts of an error message that change from one occurrence to the next
+const VOLATILE: [RegExp, string][] = [
+  [/https?:\/\/\S+/g, '<url>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<id>'],
+  [/(["`])[^"`]*\1/g, '<str>'],
+  // Single quotes only count away from letters, so apostrophes in "didn't" stay put
+  [/(?<!\w)'[^']*'(?!\w)/g, '<str>'],
+];
+
+export function errorSignature(message: string | null): string {
+  if (!message) return 'Unknown error';
+  const masked = VOLATILE.reduce((text, [pattern, token]) => text.replace(pattern, token), message);
+  return masked
+    // Standalone three-digit numbers are usually HTTP statuses, which tell failures apart
+    .replace(/\d+(?:\.\d+)?/g, (match: string, offset: number, text: string) => (
+      /^[1-5]\d\d$/.test(match) && !/\w/.test(text[offset - 1] || '') && !/\w/.test(text[offset + match.length] || '') ? match : '<n>'
+    ))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface FailureCluster {
+  key: string;
+  signature: string;
+  stage: string;
+  provider: string;
+  model: string;
+  traces: SiteTrace[];
+  runIds: string[];
+  siteIds: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+// Groups failed calls that share an error signature, stage, provider and model; most frequent first
+export function clusterFailures(traces: SiteTrace[]): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+  for (const t of traces) {
+    if (t.status !== 'error') continue;
+    const signature = errorSignature(t.error_message);
+    const key = [signature, t.stage, t.provider, t.model].join('\u0000');
+    const at = t.created_at || '';
+    const cluster = clusters.get(key) || {
+      key, signature, stage: t.stage, provider: t.provider, model: t.model,
+      traces: [], runIds: [], siteIds: [], firstSeen: at, lastSeen: at,
+    };
+    cluster.traces.push(t);
+    if (!cluster.runIds.includes(t.run_id)) cluster.runIds.push(t.run_id);
+    if (!cluster.siteIds.includes(t.site_id)) cluster.siteIds.push(t.site_id);
+    if (at < cluster.firstSeen) cluster.firstSeen = at;
+    if (at > cluster.lastSeen) cluster.lastSeen = at;
+    clusters.set(key, cluster);
+  }
+  return [...clusters.values()].sort((a, b) => b.traces.length - a.traces.length || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+// Failures per UTC day in [from, to]
+export function dailyCounts(traces: SiteTrace[], from: string, to: string): number[] {
+  const counts: number[] = [];
+  for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+    const day = new Date(t).toISOString().slice(0, 10);
+    counts.push(traces.filter((trace) => (trace.created_at || '').slice(0, 10) === day).length);
+  }
+  return counts;
+}
+
+// A run can be retried while its latest attempt is still the failed one
+export function isRetryable(run: PipelineRun | undefined): run is PipelineRun {
+  return !!run && run.status === 'error';
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+export interface FailureData {
+  traces: SiteTrace[];
+  runs: Record<string, PipelineRun>;
+}
+
+// Run ids per request, which keeps the query string short
+const RUN_BATCH_SIZE = 50;
+
+// Looked up by id rather than by start date: a run that started before the window can still fail inside it
+async function loadRuns(siteId: string, runIds: string[], opts?: RequestOpts): Promise<PipelineRun[]> {
+  const pages = await Promise.all(chunk(runIds, RUN_BATCH_SIZE).map((batch) => fetchRuns(siteId, { run_ids: batch }, null, batch.length, opts)));
+  return pages.flatMap((page) => page.runs);
+}
+
+// Failed traces across sites, with the runs they belong to for titles and current status
+export async function loadFailures(siteIds: string[], from: string, opts?: RequestOpts): Promise<FailureData> {
+  const traces = (await fetchTracesForSites(siteIds, { from }, opts)).filter((t) => t.status === 'error');
+  const runIdsBySite = new Map<string, Set<string>>();
+  for (const t of traces) {
+    const runIds = runIdsBySite.get(t.site_id);
+    if (runIds) runIds.add(t.run_id);
+    else runIdsBySite.set(t.site_id, new Set([t.run_id]));
+  }
+  const runs = await Promise.all([...runIdsBySite].map(([siteId, runIds]) => loadRuns(siteId, [...runIds], opts)));
+  return {
+    traces,
+    runs: Object.fromEntries(runs.flat().map((r) => [r.id, r])),
+  };
+}
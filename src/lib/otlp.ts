@@ -0,0 +1,189 @@
+import { fetchAllPages, fetchRuns, fetchSiteTraces, type RequestOpts, type RunFilters } from './api';
+import type { PipelineRun, Trace } from './types';
+
+// OTLP/JSON encoding of pipeline runs, importable by any OpenTelemetry collector (see docs/otlp-export.md)
+
+const SERVICE_NAME = 'content-pipeline';
+const SCOPE_NAME = 'content-pipeline-dashboard';
+
+// Span kinds and status codes from the OTLP trace proto
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export type OtlpRun = Pick<PipelineRun, 'id' | 'site_id' | 'content_id' | 'topic_id' | 'title' | 'status' | 'error_message'>
+  & Partial<Pick<PipelineRun, 'started_at' | 'finished_at'>>
+  & { traces: Trace[] };
+
+type AnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  status: { code: number; message?: string };
+}
+
+export interface OtlpExport {
+  resourceSpans: {
+    resource: { attributes: KeyValue[] };
+    scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+// FNV-1a over the text, one 32-bit word per salt, so the same run always gets the same ids
+// and re-importing an export replaces spans instead of duplicating them
+function hexId(text: string, words: number): string {
+  let hex = '';
+  for (let salt = 0; salt < words; salt++) {
+    let hash = 0x811c9dc5 ^ salt;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+function unixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+// Costs stay doubles even when they happen to be whole numbers, so the attribute type never flips
+const DOUBLE_KEYS = new Set(['pipeline.cost_usd']);
+
+// Null and undefined values are left out rather than exported as empty strings
+function attributes(values: Record<string, string | number | null | undefined>): KeyValue[] {
+  return Object.entries(values).flatMap(([key, value]): KeyValue[] => {
+    if (value === null || value === undefined) return [];
+    if (typeof value === 'string') return [{ key, value: { stringValue: value } }];
+    return [{ key, value: Number.isInteger(value) && !DOUBLE_KEYS.has(key) ? { intValue: String(value) } : { doubleValue: value } }];
+  });
+}
+
+// Traces are written when a stage's call returns, so each call spans [created_at - latency_ms, created_at]
+function callWindow(trace: Trace): { start: number; end: number } {
+  const end = Date.parse(trace.created_at!);
+  return { start: end - (trace.latency_ms || 0), end };
+}
+
+function stageSpan(trace: Trace, traceId: string, parentSpanId: string): OtlpSpan {
+  const { start, end } = callWindow(trace);
+  return {
+    traceId,
+    spanId: hexId(trace.id, 2),
+    parentSpanId,
+    name: `pipeline.stage ${trace.stage}`,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: unixNano(start),
+    endTimeUnixNano: unixNano(end),
+    attributes: attributes({
+      'pipeline.trace.id': trace.id,
+      'pipeline.stage': trace.stage,
+      'pipeline.system_prompt_hash': trace.system_prompt_hash,
+      'gen_ai.system': trace.provider,
+      'gen_ai.request.model': trace.model,
+      'gen_ai.usage.input_tokens': trace.input_tokens,
+      'gen_ai.usage.output_tokens': trace.output_tokens,
+      'pipeline.usage.total_tokens': trace.total_tokens,
+      'pipeline.cost_usd': trace.estimated_cost_usd,
+    }),
+    status: trace.status === 'error'
+      ? { code: STATUS_ERROR, message: trace.error_message || 'Stage failed' }
+      : { code: STATUS_OK },
+  };
+}
+
+function runSpans(run: OtlpRun): OtlpSpan[] {
+  const traceId = hexId(run.id, 4);
+  const rootId = hexId(`${run.id}/root`, 2);
+  // Calls without a timestamp can't be placed on the timeline and are left out
+  const timed = run.traces
+    .filter((t) => t.created_at)
+    .sort((a, b) => callWindow(a).start - callWindow(b).start);
+
+  // The root covers the recorded run times where known, stretched to fit every stage
+  const bounds = [
+    ...timed.flatMap((t) => Object.values(callWindow(t))),
+    ...[run.started_at, run.finished_at].filter((at): at is string => !!at).map((at) => Date.parse(at)),
+  ];
+  if (bounds.length === 0) return [];
+
+  const root: OtlpSpan = {
+    traceId,
+    spanId: rootId,
+    name: 'pipeline.run',
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: unixNano(Math.min(...bounds)),
+    endTimeUnixNano: unixNano(Math.max(...bounds)),
+    attributes: attributes({
+      'pipeline.run.id': run.id,
+      'pipeline.run.title': run.title,
+      'pipeline.run.status': run.status,
+      'pipeline.site.id': run.site_id,
+      'pipeline.content.id': run.content_id,
+      'pipeline.topic.id': run.topic_id,
+      'pipeline.usage.total_tokens': run.traces.reduce((sum, t) => sum + (t.total_tokens || 0), 0),
+      // Summed floats pick up noise past the sixth decimal
+      'pipeline.cost_usd': Number(run.traces.reduce((sum, t) => sum + (t.estimated_cost_usd || 0), 0).toFixed(6)),
+    }),
+    status: run.status === 'error'
+      ? { code: STATUS_ERROR, message: run.error_message || 'Run failed' }
+      : run.status === 'success' ? { code: STATUS_OK } : { code: STATUS_UNSET },
+  };
+  return [root, ...timed.map((t) => stageSpan(t, traceId, rootId))];
+}
+
+// One resource per site, so collectors can tell the sites apart without reading span attributes
+export function toOtlp(runs: OtlpRun[]): OtlpExport {
+  const bySite = new Map<string, OtlpSpan[]>();
+  for (const run of runs) {
+    const spans = bySite.get(run.site_id);
+    if (spans) spans.push(...runSpans(run));
+    else bySite.set(run.site_id, runSpans(run));
+  }
+  return {
+    resourceSpans: [...bySite].map(([siteId, spans]) => ({
+      resource: { attributes: attributes({ 'service.name': SERVICE_NAME, 'pipeline.site.id': siteId }) },
+      scopeSpans: [{ scope: { name: SCOPE_NAME }, spans }],
+    })),
+  };
+}
+
+export function otlpBlob(runs: OtlpRun[]): Blob {
+  return new Blob([JSON.stringify(toOtlp(runs), null, 2)], { type: 'application/json' });
+}
+
+export function otlpFilename(prefix: string, at = new Date()): string {
+  return `${prefix}-traces-${at.toISOString().slice(0, 10)}.otlp.json`;
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+// Every run matching the filters with its traces. Traces come in one site-wide request and are
+// matched up by run id; they're only bounded below, since a run's last stage can land after `to`
+export async function loadRunsForExport(siteId: string, filters: RunFilters, opts?: RequestOpts): Promise<OtlpRun[]> {
+  const runs = await fetchAllPages((cursor, limit) => fetchRuns(siteId, filters, cursor, limit, opts), (page) => page.runs);
+  if (runs.length === 0) return [];
+
+  const traces = await fetchSiteTraces(siteId, { from: filters.from }, opts);
+  const byRun = new Map<string, Trace[]>();
+  for (const t of traces) {
+    const runTraces = byRun.get(t.run_id);
+    if (runTraces) runTraces.push(t);
+    else byRun.set(t.run_id, [t]);
+  }
+  return runs.map((run) => ({ ...run, traces: byRun.get(run.id) || [] }));
+}
@@ -0,0 +1,60 @@
+import type { Content, Trace } from './types';
+import { WORK_STAGES } from './utils';
+import { toMicros } from './costAnalytics';
+
+export interface PromptVersion {
+  hash: string;
+  stage: string;
+  firstSeen: string;
+  lastSeen: string;
+  calls: number;
+  failed: number;
+  failureRate: number;
+  avgTokens: number;
+  avgCostMicros: number;
+  // Mean quality of the articles this prompt worked on; null until one has been scored
+  avgQuality: number | null;
+  scored: number;
+}
+
+const stageOrder = (stage: string) => {
+  const index = WORK_STAGES.indexOf(stage as (typeof WORK_STAGES)[number]);
+  return index === -1 ? WORK_STAGES.length : index;
+};
+
+// One row per stage and prompt hash, in pipeline order and oldest prompt first within a stage.
+// `content` is the site's items, for the quality scores of the articles each prompt worked on
+export function promptVersions(traces: Trace[], content: Content[]): PromptVersion[] {
+  const quality = new Map(content.filter((c) => c.quality_score !== null).map((c) => [c.id, c.quality_score!]));
+  const groups = new Map<string, { hash: string; stage: string; traces: Trace[] }>();
+  for (const t of traces) {
+    if (!t.system_prompt_hash) continue;
+    const key = `${t.stage}\u0000${t.system_prompt_hash}`;
+    const group = groups.get(key) || { hash: t.system_prompt_hash, stage: t.stage, traces: [] };
+    group.traces.push(t);
+    groups.set(key, group);
+  }
+
+  const versions = [...groups.values()].map(({ hash, stage, traces: calls }): PromptVersion => {
+    const times = calls.map((t) => t.created_at || '').filter(Boolean).sort();
+    const failed = calls.filter((t) => t.status === 'error').length;
+    // Each article counts once however many calls the prompt made on it
+    const scores = [...new Set(calls.map((t) => t.content_id))]
+      .filter((id): id is string => !!id && quality.has(id))
+      .map((id) => quality.get(id)!);
+    return {
+      hash,
+      stage,
+      firstSeen: times[0] || '',
+      lastSeen: times[times.length - 1] || '',
+      calls: calls.length,
+      failed,
+      failureRate: failed / calls.length,
+      avgTokens: calls.reduce((sum, t) => sum + (t.total_tokens || 0), 0) / calls.length,
+      avgCostMicros: calls.reduce((sum, t) => sum + toMicros(t.estimated_cost_usd || 0), 0) / calls.length,
+      avgQuality: scores.length ? scores.reduce((sum, q) => sum + q, 0) / scores.length : null,
+      scored: scores.length,
+    };
+  });
+  return versions.sort((a, b) => stageOrder(a.stage) - stageOrder(b.stage) || a.stage.localeCompare(b.stage) || a.firstSeen.localeCompare(b.firstSeen));
+}
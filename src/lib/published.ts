@@ -0,0 +1,61 @@
+import type { Content, UrlCheck } from './types';
+
+export interface PublishedLink {
+  platform: string;
+  // Null when the item was formatted for the platform but no URL came back from publishing there
+  url: string | null;
+  check: UrlCheck | null;
+}
+
+export interface PublishedItem {
+  content: Content;
+  links: PublishedLink[];
+  missing: string[];
+  failing: number;
+  unchecked: number;
+}
+
+const FAILING_STATUSES = ['broken', 'unreachable'];
+
+export function isFailing(check: UrlCheck | null): boolean {
+  return !!check && FAILING_STATUSES.includes(check.status);
+}
+
+// Platforms listed in `platforms` that have no published URL
+export function missingPlatforms(content: Content): string[] {
+  return Object.keys(content.platforms).filter((platform) => !content.published_urls[platform]);
+}
+
+export function publishedLinks(content: Content, checks: UrlCheck[]): PublishedLink[] {
+  const latest = new Map<string, UrlCheck>();
+  for (const check of checks) {
+    if (check.content_id !== content.id) continue;
+    const seen = latest.get(check.platform);
+    if (!seen || check.checked_at > seen.checked_at) latest.set(check.platform, check);
+  }
+  return [
+    ...Object.entries(content.published_urls).map(([platform, url]) => {
+      const check = latest.get(platform);
+      // A check of a URL that has since been replaced says nothing about the new one
+      return { platform, url, check: check?.url === url ? check : null };
+    }),
+    ...missingPlatforms(content).map((platform) => ({ platform, url: null, check: null })),
+  ];
+}
+
+// Everything that went out, newest first, with its URL problems tallied
+export function publishedInventory(content: Content[], checks: UrlCheck[]): PublishedItem[] {
+  return content
+    .filter((c) => c.stage === 'published' || Object.keys(c.published_urls).length > 0)
+    .map((c) => {
+      const links = publishedLinks(c, checks);
+      return {
+        content: c,
+        links,
+        missing: missingPlatforms(c),
+        failing: links.filter((l) => isFailing(l.check)).length,
+        unchecked: links.filter((l) => l.url && !l.check).length,
+      };
+    })
+    .sort((a, b) => (b.content.published_at || '').localeCompare(a.content.published_at || ''));
+}
@@ -0,0 +1,171 @@
+import { isAbortError } from './errors';
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  fetching: boolean;
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface Entry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  fetcher?: Fetcher<T>;
+  promise?: Promise<T>;
+  controller?: AbortController;
+  invalidated: boolean;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Cached data younger than this is served without a background refetch
+export const STALE_TIME_MS = 30_000;
+// Entries nobody is subscribed to are dropped after this long
+const GC_TIME_MS = 5 * 60_000;
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, fetching: false };
+
+const cache = new Map<string, Entry<unknown>>();
+
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function getEntry<T>(key: QueryKey): Entry<T> {
+  const hash = hashKey(key);
+  let entry = cache.get(hash) as Entry<T> | undefined;
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, invalidated: false, listeners: new Set() };
+    cache.set(hash, entry as Entry<unknown>);
+  }
+  return entry;
+}
+
+function scheduleGc(entry: Entry<unknown>) {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => cache.delete(hashKey(entry.key)), GC_TIME_MS);
+}
+
+function setState<T>(entry: Entry<T>, patch: Partial<QueryState<T>>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+// Resolves from cache when fresh, joins an identical in-flight request, or starts a new one
+export function fetchQuery<T>(key: QueryKey, fetcher: Fetcher<T>, options?: { staleTime?: number; force?: boolean }): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  // Fetched outside a component (prefetch, polling), so no unsubscribe will ever arm the timer
+  if (entry.listeners.size === 0) scheduleGc(entry as Entry<unknown>);
+
+  if (!options?.force) {
+    if (entry.promise) return entry.promise;
+    const age = Date.now() - entry.state.updatedAt;
+    if (entry.state.updatedAt > 0 && !entry.invalidated && age < (options?.staleTime ?? STALE_TIME_MS)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+  }
+
+  // A forced refetch supersedes whatever is in flight, which may predate a mutation
+  entry.controller?.abort();
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.invalidated = false;
+
+  const promise: Promise<T> = fetcher(controller.signal).then(
+    (data) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        setState(entry, { data, error: null, updatedAt: Date.now(), fetching: false });
+      }
+      return data;
+    },
+    (error) => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        setState(entry, isAbortError(error) ? { fetching: false } : { error, fetching: false });
+      }
+      throw error;
+    },
+  );
+  entry.promise = promise;
+  setState(entry, { fetching: true, error: null });
+  return promise;
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return getEntry<T>(key).state;
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key);
+  clearTimeout(entry.gcTimer);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+    // Nobody is waiting on the in-flight request any more
+    if (entry.promise) {
+      entry.controller?.abort();
+      entry.promise = undefined;
+      entry.state = { ...entry.state, fetching: false };
+    }
+    scheduleGc(entry);
+  };
+}
+
+export function setQueryData<T>(key: QueryKey, updater: (prev: T | undefined) => T) {
+  const entry = getEntry<T>(key);
+  setState(entry, { data: updater(entry.state.data), updatedAt: entry.state.updatedAt || Date.now() });
+}
+
+// Undefined parts of a prefix match anything, so queryKeys.ideas(siteId) covers every filter
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, i) => part === undefined || hashKey([part]) === hashKey([key[i]]));
+}
+
+// Invalidations held back while a batch is running, deduped by prefix
+let batchDepth = 0;
+const pendingInvalidations = new Map<string, QueryKey>();
+
+// Marks every entry under the prefix stale and refetches the ones currently on screen
+export function invalidateQueries(prefix: QueryKey) {
+  if (batchDepth > 0) {
+    pendingInvalidations.set(hashKey(prefix), prefix);
+    return;
+  }
+  for (const entry of cache.values()) {
+    if (!matchesPrefix(entry.key, prefix)) continue;
+    entry.invalidated = true;
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {});
+    }
+  }
+}
+
+// Holds back invalidations until `run` settles so a bulk operation refetches each list once, not once per item
+export async function batchInvalidations<T>(run: () => Promise<T>): Promise<T> {
+  batchDepth++;
+  try {
+    return await run();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      const prefixes = [...pendingInvalidations.values()];
+      pendingInvalidations.clear();
+      prefixes.forEach((prefix) => invalidateQueries(prefix));
+    }
+  }
+}
+
+export function clearQueryCache() {
+  for (const entry of cache.values()) {
+    entry.controller?.abort();
+    clearTimeout(entry.gcTimer);
+  }
+  cache.clear();
+}
@@ -0,0 +1,36 @@
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+
+// Transient statuses worth another try. 502 and 504 can arrive after the worker has started the
+// work, so only requests that are safe to repeat get retried
+export const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+// Exponential backoff with full jitter; a Retry-After header wins when present
+export function backoffDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_DELAY_MS);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.min(Math.max(date - Date.now(), 0), MAX_DELAY_MS);
+  }
+  const cap = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.random() * cap;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
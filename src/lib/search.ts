@@ -0,0 +1,33 @@
+// Shared by the search box and the mock backend so highlighting agrees with what matched
+
+export function searchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+export interface Segment {
+  text: string;
+  match: boolean;
+}
+
+export function highlightSegments(text: string, terms: string[]): Segment[] {
+  if (!terms.length) return [{ text, match: false }];
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Longest first so "pipeline" wins over "pipe" when both are terms
+  escaped.sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+// A window of text around the first hit, trimmed to word boundaries
+export function snippetAround(text: string, term: string, radius = 60): string {
+  const flat = text.replace(/[#*_>`]/g, '').replace(/\s+/g, ' ').trim();
+  const at = flat.toLowerCase().indexOf(term);
+  if (at === -1) return flat.slice(0, radius * 2);
+  const start = Math.max(0, flat.lastIndexOf(' ', Math.max(0, at - radius)) + 1);
+  const endSpace = flat.indexOf(' ', at + term.length + radius);
+  const end = endSpace === -1 ? flat.length : endSpace;
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
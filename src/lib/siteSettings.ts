@@ -0,0 +1,68 @@
+import type { Site } from './types';
+import { parseJSON } from './utils';
+
+// Service levels a site holds its content to: a stage must be done within so many hours, or
+// scheduled content must go out by its scheduled time (give or take a grace period)
+export type SlaRule =
+  | { type: 'max_age'; stage: string; hours: number }
+  | { type: 'publish_by_schedule'; grace_minutes: number };
+
+// Sites keep free-form settings as a JSON text column; these are the keys the dashboard reads
+export interface SiteSettings {
+  monthly_budget_usd?: number | null;
+  // Human-readable names for system prompt hashes, e.g. "draft v3"
+  prompt_labels?: Record<string, string>;
+  sla_rules?: SlaRule[];
+  // Articles the site aims to publish each week
+  publish_cadence_per_week?: number | null;
+  [key: string]: unknown;
+}
+
+export function siteSettings(site: Site): SiteSettings {
+  const parsed = parseJSON<SiteSettings>(site.settings);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+}
+
+export function monthlyBudget(site: Site): number | null {
+  const budget = siteSettings(site).monthly_budget_usd;
+  return typeof budget === 'number' && budget > 0 ? budget : null;
+}
+
+// Merges into the existing settings so keys the dashboard doesn't know about survive
+export function mergeSettings(site: Site, patch: Partial<SiteSettings>): string {
+  return JSON.stringify({ ...siteSettings(site), ...patch });
+}
+
+export function publishCadence(site: Site): number | null {
+  const cadence = siteSettings(site).publish_cadence_per_week;
+  return typeof cadence === 'number' && cadence > 0 ? cadence : null;
+}
+
+export function promptLabels(site: Site): Record<string, string> {
+  const labels = siteSettings(site).prompt_labels;
+  return labels && typeof labels === 'object' && !Array.isArray(labels) ? labels : {};
+}
+
+export const DEFAULT_SLA_RULES: SlaRule[] = [
+  { type: 'max_age', stage: 'verify', hours: 2 },
+  { type: 'max_age', stage: 'review', hours: 48 },
+  { type: 'publish_by_schedule', grace_minutes: 60 },
+];
+
+function isSlaRule(rule: unknown): rule is SlaRule {
+  if (!rule || typeof rule !== 'object') return false;
+  const r = rule as Record<string, unknown>;
+  if (r.type === 'max_age') return typeof r.stage === 'string' && typeof r.hours === 'number' && r.hours > 0;
+  return r.type === 'publish_by_schedule' && typeof r.grace_minutes === 'number' && r.grace_minutes >= 0;
+}
+
+// Sites that never saved rules get the defaults; a saved empty list means no SLAs
+export function slaRules(site: Site): SlaRule[] {
+  const rules = siteSettings(site).sla_rules;
+  return Array.isArray(rules) ? rules.filter(isSlaRule) : DEFAULT_SLA_RULES;
+}
+
+// Hours allowed per stage, from the site's max_age rules
+export function stageAgeLimits(site: Site): Record<string, number> {
+  return Object.fromEntries(slaRules(site).flatMap((r) => (r.type === 'max_age' ? [[r.stage, r.hours]] : [])));
+}
@@ -0,0 +1,53 @@
+import type { Content, Trace } from './types';
+import type { SlaRule } from './siteSettings';
+import { HOUR_MS, MINUTE_MS } from './utils';
+import { stageAging } from './throughput';
+
+export interface SlaStatus {
+  content: Content;
+  rule: SlaRule;
+  dueAt: number;
+  // How far past the deadline; negative while there's still time
+  overdueMs: number;
+  breached: boolean;
+}
+
+export function describeRule(rule: SlaRule): string {
+  if (rule.type === 'max_age') return `${rule.stage} within ${rule.hours}h`;
+  return rule.grace_minutes ? `Publish within ${rule.grace_minutes} min of schedule` : 'Publish on schedule';
+}
+
+// The deadline each item is held to, most overdue first. An item only sits in one stage, so at most
+// one max_age rule applies to it; scheduled items can also be held to their publish time.
+export function evaluateSla(content: Content[], traces: Trace[], rules: SlaRule[], now = Date.now()): SlaStatus[] {
+  const byItem = new Map<string, SlaStatus>();
+  const consider = (content: Content, rule: SlaRule, dueAt: number) => {
+    const status = { content, rule, dueAt, overdueMs: now - dueAt, breached: now > dueAt };
+    const current = byItem.get(content.id);
+    if (!current || status.overdueMs > current.overdueMs) byItem.set(content.id, status);
+  };
+
+  const ageRules = new Map(rules.flatMap((r) => (r.type === 'max_age' ? [[r.stage, r] as const] : [])));
+  const limits = Object.fromEntries([...ageRules].map(([stage, rule]) => [stage, rule.hours]));
+  for (const item of stageAging(content, traces, limits, now)) {
+    consider(item.content, ageRules.get(item.stage)!, item.enteredAt + item.limitMs);
+  }
+
+  for (const rule of rules) {
+    if (rule.type !== 'publish_by_schedule') continue;
+    for (const c of content) {
+      if (c.stage !== 'scheduled' || !c.scheduled_publish_at) continue;
+      consider(c, rule, Date.parse(c.scheduled_publish_at) + rule.grace_minutes * MINUTE_MS);
+    }
+  }
+
+  return [...byItem.values()].sort((a, b) => b.overdueMs - a.overdueMs);
+}
+
+// Compact "3h" / "2d" form for badges
+export function formatOverdue(ms: number): string {
+  const hours = Math.abs(ms) / HOUR_MS;
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
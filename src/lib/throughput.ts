@@ -0,0 +1,160 @@
+import { fetchAllPages, fetchContentPage, type RequestOpts } from './api';
+import type { Content, Trace } from './types';
+import { DAY_MS, HOUR_MS, WORK_STAGES } from './utils';
+
+export type Granularity = 'day' | 'week';
+
+// How far back each granularity looks
+export const BUCKET_COUNTS: Record<Granularity, number> = { day: 30, week: 12 };
+
+export interface ThroughputBucket {
+  // YYYY-MM-DD of the first day in the bucket
+  start: string;
+  created: number;
+  reviewed: number;
+  published: number;
+}
+
+// Start of the UTC day, or of the Monday-based week, containing `time`
+function bucketStart(time: number, granularity: Granularity): number {
+  const day = Math.floor(time / DAY_MS) * DAY_MS;
+  return granularity === 'day' ? day : day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+export function throughput(content: Content[], granularity: Granularity, now = Date.now()): ThroughputBucket[] {
+  const step = granularity === 'day' ? DAY_MS : 7 * DAY_MS;
+  const count = BUCKET_COUNTS[granularity];
+  const first = bucketStart(now, granularity) - (count - 1) * step;
+  const buckets: ThroughputBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: new Date(first + i * step).toISOString().slice(0, 10),
+    created: 0,
+    reviewed: 0,
+    published: 0,
+  }));
+
+  const add = (at: string | null | undefined, field: 'created' | 'reviewed' | 'published') => {
+    if (!at) return;
+    const index = Math.round((bucketStart(Date.parse(at), granularity) - first) / step);
+    if (index >= 0 && index < count) buckets[index][field]++;
+  };
+  for (const c of content) {
+    add(c.created_at, 'created');
+    add(c.reviewed_at, 'reviewed');
+    add(c.published_at, 'published');
+  }
+  return buckets;
+}
+
+// ============================================================
+// Stage timing
+// ============================================================
+
+interface RunTimes {
+  // When the first call of the run started
+  start: number | null;
+  // When each stage's latest successful call returned; a resumed run's later attempt wins
+  ends: Record<string, number>;
+}
+
+function runTimes(traces: Trace[]): RunTimes {
+  let start: number | null = null;
+  const ends: Record<string, number> = {};
+  for (const t of traces) {
+    if (!t.created_at) continue;
+    const end = Date.parse(t.created_at);
+    const begin = end - (t.latency_ms || 0);
+    if (start === null || begin < start) start = begin;
+    if (t.status === 'success' && (ends[t.stage] === undefined || end > ends[t.stage])) ends[t.stage] = end;
+  }
+  return { start, ends };
+}
+
+function timesByContent(content: Content[], traces: Trace[]): Map<string, RunTimes> {
+  const byRun = new Map<string, Trace[]>();
+  for (const t of traces) {
+    const runTraces = byRun.get(t.run_id);
+    if (runTraces) runTraces.push(t);
+    else byRun.set(t.run_id, [t]);
+  }
+  return new Map(content.map((c) => [c.id, runTimes((c.run_id && byRun.get(c.run_id)) || [])]));
+}
+
+const parse = (at: string | null | undefined) => (at ? Date.parse(at) : null);
+
+// How long finished stages took, per stage. Work stages run from the previous stage's end to their own;
+// review runs from the end of edit until an editor acted, and scheduled from then until publishing.
+export function stageDurations(content: Content[], traces: Trace[], now = Date.now()): Record<string, number[]> {
+  const durations: Record<string, number[]> = {};
+  const push = (stage: string, from: number | null | undefined, to: number | null | undefined) => {
+    if (from == null || to == null || to < from) return;
+    (durations[stage] ||= []).push(to - from);
+  };
+
+  const times = timesByContent(content, traces);
+  for (const c of content) {
+    const { start, ends } = times.get(c.id)!;
+    WORK_STAGES.forEach((stage, i) => push(stage, i === 0 ? start : ends[WORK_STAGES[i - 1]], ends[stage]));
+    const reviewed = parse(c.reviewed_at);
+    push('review', ends.edit, reviewed);
+    const published = parse(c.published_at);
+    if (published !== null && published <= now) push('scheduled', reviewed, published);
+  }
+  return durations;
+}
+
+export interface CycleTime {
+  content: Content;
+  ms: number;
+}
+
+// Research start to publication, for published items whose run is inside the trace window
+export function cycleTimes(content: Content[], traces: Trace[], now = Date.now()): CycleTime[] {
+  const times = timesByContent(content, traces);
+  return content.flatMap((c) => {
+    const published = parse(c.published_at);
+    const { start } = times.get(c.id)!;
+    return published !== null && published <= now && start !== null && published >= start ? [{ content: c, ms: published - start }] : [];
+  });
+}
+
+// ============================================================
+// Aging
+// ============================================================
+
+export interface AgingItem {
+  content: Content;
+  stage: string;
+  enteredAt: number;
+  ageMs: number;
+  limitMs: number;
+  stuck: boolean;
+}
+
+// Items sitting in a watched stage, longest overdue first. Entry times come from the run's traces,
+// falling back to the row's own timestamps when the run is outside the trace window.
+export function stageAging(content: Content[], traces: Trace[], limitsHours: Record<string, number>, now = Date.now()): AgingItem[] {
+  const watched = content.filter((c) => limitsHours[c.stage] !== undefined);
+  const times = timesByContent(watched, traces);
+  return watched
+    .map((c) => {
+      const { start, ends } = times.get(c.id)!;
+      const index = WORK_STAGES.indexOf(c.stage as (typeof WORK_STAGES)[number]);
+      const previousEnd = c.stage === 'review' ? ends.edit : index > 0 ? ends[WORK_STAGES[index - 1]] : start;
+      // A rejected item goes back into the pipeline when the editor acts, which may be after its last run
+      const candidates = [previousEnd, c.stage === 'review' ? null : parse(c.reviewed_at)].filter((t): t is number => t != null);
+      const enteredAt = candidates.length ? Math.max(...candidates) : parse(c.updated_at) ?? parse(c.created_at) ?? now;
+      const limitMs = limitsHours[c.stage] * HOUR_MS;
+      const ageMs = Math.max(0, now - enteredAt);
+      return { content: c, stage: c.stage, enteredAt, ageMs, limitMs, stuck: ageMs > limitMs };
+    })
+    .sort((a, b) => b.ageMs / b.limitMs - a.ageMs / a.limitMs);
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+// Every item on the site; the flow charts need the timestamps of all of them, not just a page
+export function loadSiteContent(siteId: string, opts?: RequestOpts): Promise<Content[]> {
+  return fetchAllPages((cursor, limit) => fetchContentPage({ siteId, limit, cursor }, opts), (page) => page.content);
+}
@@ -0,0 +1,147 @@
+import { fetchSiteTraces, type DateRange, type RequestOpts } from './api';
+import type { Trace } from './types';
+import { DAY_MS, HOUR_MS, MINUTE_MS } from './utils';
+
+// A stage this many times slower than its site median gets flagged
+export const OUTLIER_FACTOR = 1.5;
+
+// How far back the site baseline looks
+const BASELINE_DAYS = 90;
+
+export function baselineRange(now = Date.now()): { from: string } {
+  return { from: new Date(now - BASELINE_DAYS * DAY_MS).toISOString().slice(0, 10) };
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Median latency per stage over successful calls; failures return early and would drag it down
+export function stageLatencyMedians(traces: Trace[]): Record<string, number> {
+  const byStage = new Map<string, number[]>();
+  for (const t of traces) {
+    if (t.status !== 'success' || t.latency_ms === null) continue;
+    const values = byStage.get(t.stage);
+    if (values) values.push(t.latency_ms);
+    else byStage.set(t.stage, [t.latency_ms]);
+  }
+  return Object.fromEntries([...byStage].map(([stage, values]) => [stage, median(values)!]));
+}
+
+export interface WaterfallRow {
+  trace: Trace;
+  // Milliseconds from the start of the run
+  start: number;
+  end: number;
+  // Idle time since the previous stage finished; negative when the calls overlapped
+  queuedMs: number | null;
+  // Latency relative to the site median for the stage, when there is one
+  vsMedian: number | null;
+  outlier: boolean;
+}
+
+// Traces are written when a stage's model call returns, so each call spans [created_at - latency_ms, created_at]
+export function buildWaterfall(traces: Trace[], medians: Record<string, number> = {}): { rows: WaterfallRow[]; span: number } {
+  const timed = traces
+    .filter((t) => t.created_at)
+    .map((t) => {
+      const end = new Date(t.created_at!).getTime();
+      return { trace: t, start: end - (t.latency_ms || 0), end };
+    })
+    .sort((a, b) => a.start - b.start);
+  if (timed.length === 0) return { rows: [], span: 0 };
+
+  const origin = timed[0].start;
+  const rows = timed.map(({ trace, start, end }, i) => {
+    const baseline = medians[trace.stage];
+    const vsMedian = baseline && trace.latency_ms !== null ? trace.latency_ms / baseline : null;
+    return {
+      trace,
+      start: start - origin,
+      end: end - origin,
+      queuedMs: i > 0 ? start - timed[i - 1].end : null,
+      vsMedian,
+      outlier: vsMedian !== null && vsMedian >= OUTLIER_FACTOR,
+    };
+  });
+  return { rows, span: Math.max(...rows.map((r) => r.end)) };
+}
+
+export interface StageShare {
+  stage: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  tokenShare: number;
+  costShare: number;
+}
+
+export function stageShares(traces: Trace[]): StageShare[] {
+  const totals = new Map<string, { inputTokens: number; outputTokens: number; cost: number }>();
+  for (const t of traces) {
+    const entry = totals.get(t.stage) || { inputTokens: 0, outputTokens: 0, cost: 0 };
+    entry.inputTokens += t.input_tokens || 0;
+    entry.outputTokens += t.output_tokens || 0;
+    entry.cost += t.estimated_cost_usd || 0;
+    totals.set(t.stage, entry);
+  }
+  const allTokens = [...totals.values()].reduce((sum, e) => sum + e.inputTokens + e.outputTokens, 0);
+  const allCost = [...totals.values()].reduce((sum, e) => sum + e.cost, 0);
+  return [...totals].map(([stage, e]) => ({
+    stage,
+    ...e,
+    tokenShare: allTokens ? (e.inputTokens + e.outputTokens) / allTokens : 0,
+    costShare: allCost ? e.cost / allCost : 0,
+  }));
+}
+
+export interface StageTotals {
+  stage: string;
+  // Every model the stage called, in call order; resumed runs can repeat a stage on another model
+  models: string[];
+  calls: number;
+  failed: number;
+  tokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export function stageTotals(traces: Trace[]): Record<string, StageTotals> {
+  const totals: Record<string, StageTotals> = {};
+  const ordered = [...traces].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  for (const t of ordered) {
+    const entry = totals[t.stage] ||= { stage: t.stage, models: [], calls: 0, failed: 0, tokens: 0, latencyMs: 0, cost: 0 };
+    const model = `${t.provider}/${t.model}`;
+    if (!entry.models.includes(model)) entry.models.push(model);
+    entry.calls++;
+    if (t.status !== 'success') entry.failed++;
+    entry.tokens += t.total_tokens || 0;
+    entry.latencyMs += t.latency_ms || 0;
+    entry.cost += t.estimated_cost_usd || 0;
+  }
+  return totals;
+}
+
+export function formatDuration(ms: number): string {
+  if (Math.abs(ms) < 1000) return `${Math.round(ms)}ms`;
+  if (Math.abs(ms) < MINUTE_MS) return `${(ms / 1000).toFixed(1)}s`;
+  if (Math.abs(ms) < HOUR_MS) return `${Math.floor(ms / MINUTE_MS)}m ${Math.round((ms % MINUTE_MS) / 1000)}s`;
+  if (Math.abs(ms) < DAY_MS) return `${Math.floor(ms / HOUR_MS)}h ${Math.floor((ms % HOUR_MS) / MINUTE_MS)}m`;
+  return `${Math.floor(ms / DAY_MS)}d ${Math.floor((ms % DAY_MS) / HOUR_MS)}h`;
+}
+
+export interface SiteTrace extends Trace {
+  site_id: string;
+}
+
+// Traces don't carry their site, so each one is tagged with the site it was fetched for
+export async function fetchTracesForSites(siteIds: string[], range: DateRange, opts?: RequestOpts): Promise<SiteTrace[]> {
+  const perSite = await Promise.all(siteIds.map(async (siteId) => {
+    const traces = await fetchSiteTraces(siteId, range, opts);
+    return traces.map((t) => ({ ...t, site_id: siteId }));
+  }));
+  return perSite.flat();
+}
@@ -15,7 +15,7 @@ export interface Topic {
   title: string;
   description: string;
   angle: string;
-  target_keywords: string;
+  target_keywords: string[];
   content_type: string;
   status: string;
   priority: number;
@@ -65,19 +65,73 @@ export interface Content {
   meta_keywords: string | null;
   og_image_prompt: string | null;
   category: string | null;
-  tags: string | null;
+  tags: string[];
   word_count: number | null;
   reading_time: number | null;
   quality_score: number | null;
-  platforms: string | null;
+  platforms: Record<string, unknown>;
   requires_review: number;
+  // When an editor approved or rejected it; absent on rows from before the API recorded it
+  reviewed_at?: string | null;
   scheduled_publish_at: string | null;
   published_at: string | null;
-  published_urls: string | null;
+  published_urls: Record<string, string>;
   created_at?: string;
   updated_at?: string;
 }
 
+// Latest result of the worker fetching one published URL. status is ok (2xx), redirected (ended somewhere
+// else), broken (4xx/5xx) or unreachable (DNS failure or timeout)
+export interface UrlCheck {
+  content_id: string;
+  platform: string;
+  url: string;
+  status: string;
+  http_status: number | null;
+  final_url: string | null;
+  latency_ms: number | null;
+  error_message: string | null;
+  checked_at: string;
+}
+
+export interface ContentPage {
+  content: Content[];
+  next_cursor: string | null;
+  total: number | null;
+}
+
+// Per-item aggregates for exports: claim and source tallies plus what the item's run cost
+export interface ContentMetrics {
+  content_id: string;
+  claims_by_status: Record<string, number>;
+  sources_by_reliability: Record<string, number>;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface ContentStats {
+  total: number;
+  by_stage: Record<string, number>;
+  by_category: Record<string, number>;
+  by_tag: Record<string, number>;
+  avg_quality: number | null;
+}
+
+export interface SearchHit {
+  id: string;
+  title: string;
+  // Excerpt around the first match when it wasn't in the title
+  snippet: string | null;
+  field: string;
+  status: string;
+}
+
+export interface SearchResults {
+  content: SearchHit[];
+  topics: SearchHit[];
+  ideas: SearchHit[];
+}
+
 export interface Claim {
   id: string;
   content_id: string;
@@ -119,6 +173,31 @@ export interface Trace {
   created_at?: string;
 }
 
+// One pipeline run as the runs index reports it; totals are summed over the run's traces
+export interface PipelineRun {
+  id: string;
+  site_id: string;
+  topic_id: string | null;
+  // Null when the run failed before producing content or the content was deleted since
+  content_id: string | null;
+  title: string | null;
+  status: string;
+  current_stage: string | null;
+  stages: string[];
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+  total_tokens: number;
+  total_latency_ms: number;
+  total_cost_usd: number;
+}
+
+export interface RunPage {
+  runs: PipelineRun[];
+  next_cursor: string | null;
+  total: number | null;
+}
+
 export type Stage = 'research' | 'draft' | 'verify' | 'format' | 'edit' | 'review' | 'scheduled' | 'published' | 'failed';
 
 export interface Revision {
@@ -133,7 +212,7 @@ export interface Revision {
   feedback: string | null;
   agent_notes: string | null;
   concerns: string | null;
-  fields_changed: string;
+  fields_changed: string[];
   created_at?: string;
 }
 
@@ -142,12 +221,17 @@ export interface ReviewMessage {
   content_id: string;
   role: 'human' | 'agent';
   message: string;
-  actions_taken: string;
+  actions_taken: ReviewAction[];
   stage_triggered: string | null;
   revision_id: string | null;
   created_at?: string;
 }
 
+export interface ReviewAction {
+  action: string;
+  details: string;
+}
+
 export interface SourceSuggestion {
   url: string;
   title: string;
@@ -160,9 +244,9 @@ export interface WatchTopic {
   site_id: string;
   name: string;
   description: string | null;
-  keywords: string;
-  source_types: string;
-  source_config: string;
+  keywords: string[];
+  source_types: string[];
+  source_config: Record<string, unknown>;
   scan_interval_hours: number;
   last_scanned_at: string | null;
   max_ideas_per_scan: number;
@@ -179,7 +263,7 @@ export interface Idea {
   title: string;
   description: string | null;
   angle: string | null;
-  source_urls: string;
+  source_urls: string[];
   source_snippets: string;
   relevance_score: number | null;
   freshness_score: number | null;
@@ -205,7 +289,7 @@ export interface IdeaScanRun {
   ideas_found: number;
   ideas_deduped: number;
   ideas_stored: number;
-  source_types_used: string;
+  source_types_used: string[];
   error_message: string | null;
   tokens_used: number;
   latency_ms: number | null;
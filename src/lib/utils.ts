@@ -1,5 +1,23 @@
+import type { Trace } from './types';
+
+export const MINUTE_MS = 60_000;
+export const HOUR_MS = 3_600_000;
+export const DAY_MS = 86_400_000;
+
 export const STAGES = ['research', 'draft', 'verify', 'format', 'edit', 'review', 'scheduled', 'published'] as const;
 
+// Stages where a pipeline run has stopped, successfully or not
+export const RUN_END_STAGES = ['review', 'scheduled', 'published', 'failed'];
+
+// Stages where a run does work, in order; a failed run can be resumed from any of them up to the one that failed
+export const WORK_STAGES = STAGES.filter((s) => !RUN_END_STAGES.includes(s));
+
+// The stage of the latest failed call; resumed runs can carry failures from earlier attempts
+export function failedStage(traces: Trace[]): string | null {
+  const failures = traces.filter((t) => t.status === 'error').sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  return failures[failures.length - 1]?.stage ?? null;
+}
+
 export const STAGE_COLORS: Record<string, { bg: string; text: string; dot: string }> = {
   research: { bg: 'bg-blue-50', text: 'text-blue-700', dot: 'bg-blue-500' },
   draft: { bg: 'bg-purple-50', text: 'text-purple-700', dot: 'bg-purple-500' },
@@ -33,6 +51,19 @@ export const SCAN_STATUS_COLORS: Record<string, { bg: string; text: string }> =
   failed: { bg: 'bg-red-50', text: 'text-red-700' },
 };
 
+export const RUN_STATUS_COLORS: Record<string, { bg: string; text: string }> = {
+  running: { bg: 'bg-yellow-50', text: 'text-yellow-700' },
+  success: { bg: 'bg-green-50', text: 'text-green-700' },
+  error: { bg: 'bg-red-50', text: 'text-red-700' },
+};
+
+export const URL_CHECK_COLORS: Record<string, { bg: string; text: string; dot: string }> = {
+  ok: { bg: 'bg-green-50', text: 'text-green-700', dot: 'bg-green-500' },
+  redirected: { bg: 'bg-yellow-50', text: 'text-yellow-700', dot: 'bg-yellow-500' },
+  broken: { bg: 'bg-red-50', text: 'text-red-700', dot: 'bg-red-500' },
+  unreachable: { bg: 'bg-red-50', text: 'text-red-700', dot: 'bg-red-500' },
+};
+
 export const CLAIM_STATUS_COLORS: Record<string, { bg: string; text: string }> = {
   verified: { bg: 'bg-green-50', text: 'text-green-700' },
   disputed: { bg: 'bg-red-50', text: 'text-red-700' },
@@ -52,12 +83,25 @@ export function formatDate(dateStr: string | null | undefined): string {
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+// For 'YYYY-MM-DD' day keys, which parse as UTC midnight and would show as the day before west of UTC
+export function formatDay(day: string | null | undefined): string {
+  if (!day) return '—';
+  return new Date(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
 export function formatDatetime(dateStr: string | null | undefined): string {
   if (!dateStr) return '—';
   const d = new Date(dateStr);
   return d.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
 }
 
+// Splits a list into runs of at most `size`, e.g. to keep ids in a query string bounded
+export function chunk<T>(list: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < list.length; i += size) chunks.push(list.slice(i, i + size));
+  return chunks;
+}
+
 export function parseJSON<T>(str: string | null | undefined): T | null {
   if (!str) return null;
   try {
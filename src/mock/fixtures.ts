@@ -0,0 +1,427 @@
+import type {
+  Site, Topic, Pillar, Voice, Content, Claim, Source, Trace, Revision, ReviewMessage, WatchTopic, Idea, IdeaScanRun, PipelineRun, UrlCheck,
+} from '../lib/types';
+import {
+  advance, buildTrace, createRng, iso, pick, pickFailure, PIPELINE_STAGES, SCAN_DURATION_MS, STAGE_DURATION_MS,
+  type PipelineJob, type ScanJob,
+} from './simulation';
+
+// Rows as the worker stores them: JSON columns are still TEXT, so the real decoders get exercised
+export type TopicRow = Omit<Topic, 'target_keywords'> & { target_keywords: string };
+export type ContentRow = Omit<Content, 'tags' | 'platforms' | 'published_urls'> & {
+  tags: string | null;
+  platforms: string | null;
+  published_urls: string | null;
+};
+export type RevisionRow = Omit<Revision, 'fields_changed'> & { fields_changed: string };
+export type ReviewMessageRow = Omit<ReviewMessage, 'actions_taken'> & { actions_taken: string };
+export type WatchTopicRow = Omit<WatchTopic, 'keywords' | 'source_types' | 'source_config'> & {
+  keywords: string;
+  source_types: string;
+  source_config: string;
+};
+export type IdeaRow = Omit<Idea, 'source_urls'> & { source_urls: string };
+export type ScanRunRow = Omit<IdeaScanRun, 'source_types_used'> & { source_types_used: string };
+// Titles, stages and totals are joined in from topics and traces when the runs index is read
+export type RunRow = Omit<PipelineRun, 'title' | 'current_stage' | 'stages' | 'total_tokens' | 'total_latency_ms' | 'total_cost_usd'>;
+
+export interface MockDb {
+  sites: Site[];
+  topics: TopicRow[];
+  pillars: Pillar[];
+  voices: Voice[];
+  content: ContentRow[];
+  runs: RunRow[];
+  claims: Claim[];
+  sources: Source[];
+  traces: Trace[];
+  revisions: RevisionRow[];
+  reviewMessages: ReviewMessageRow[];
+  watchTopics: WatchTopicRow[];
+  ideas: IdeaRow[];
+  scanRuns: ScanRunRow[];
+  urlChecks: UrlCheck[];
+  jobs: { runs: PipelineJob[]; scans: ScanJob[] };
+}
+
+export function emptyDb(): MockDb {
+  return {
+    sites: [], topics: [], pillars: [], voices: [], content: [], runs: [], claims: [], sources: [], traces: [],
+    revisions: [], reviewMessages: [], watchTopics: [], ideas: [], scanRuns: [], urlChecks: [], jobs: { runs: [], scans: [] },
+  };
+}
+
+const DAY = 86_400_000;
+
+const SITES = [
+  {
+    id: 'site-field-notes',
+    name: 'Field Notes',
+    domain: 'fieldnotes.example.com',
+    pillars: ['Remote Work', 'Engineering Culture', 'Tooling'],
+    topics: [
+      'Async standups that people actually read',
+      'Writing design docs for a distributed team',
+      'The hidden cost of context switching',
+      'Onboarding engineers without a buddy system',
+      'Measuring developer experience honestly',
+      'When to retire an internal tool',
+      'Code review norms for small teams',
+      'Running incident reviews without blame',
+    ],
+    watchTopics: ['Developer productivity research', 'Remote work policy changes'],
+  },
+  {
+    id: 'site-byte-budget',
+    name: 'Byte Budget',
+    domain: 'bytebudget.example.com',
+    pillars: ['Cloud Costs', 'Edge Computing'],
+    topics: [
+      'Cutting egress costs with edge caching',
+      'Serverless cold starts in practice',
+      'Budgeting for LLM features',
+      'Choosing a region for latency-sensitive apps',
+      'Right-sizing database instances',
+    ],
+    watchTopics: ['Cloud pricing announcements'],
+  },
+];
+
+function newContentRow(id: string, siteId: string, topic: TopicRow, runId: string, at: number): ContentRow {
+  return {
+    id,
+    site_id: siteId,
+    topic_id: topic.id,
+    voice_profile_id: null,
+    stage: 'research',
+    run_id: runId,
+    title: topic.title,
+    slug: null,
+    excerpt: null,
+    summary: null,
+    draft_md: null,
+    final_md: null,
+    meta_description: null,
+    meta_keywords: null,
+    og_image_prompt: null,
+    category: null,
+    tags: null,
+    word_count: null,
+    reading_time: null,
+    quality_score: null,
+    platforms: null,
+    requires_review: 0,
+    reviewed_at: null,
+    scheduled_publish_at: null,
+    published_at: null,
+    published_urls: null,
+    created_at: iso(at),
+    updated_at: iso(at),
+  };
+}
+
+export function startRun(db: MockDb, topic: TopicRow, at: number, rand: () => number, failureRate: number): ContentRow {
+  const runId = `run-${Math.floor(rand() * 0xffffffff).toString(16).padStart(8, '0')}`;
+  const content = newContentRow(`content-${runId.slice(4)}`, topic.site_id, topic, runId, at);
+  content.category = db.pillars.find((p) => p.id === topic.pillar_id)?.name || null;
+  content.voice_profile_id = db.voices.find((v) => v.site_id === topic.site_id)?.id || null;
+  db.content.push(content);
+  db.runs.push({
+    id: runId,
+    site_id: topic.site_id,
+    topic_id: topic.id,
+    content_id: content.id,
+    status: 'running',
+    error_message: null,
+    started_at: iso(at),
+    finished_at: null,
+  });
+  db.jobs.runs.push({
+    runId,
+    contentId: content.id,
+    topicId: topic.id,
+    startedAt: at,
+    completedStages: 0,
+    failAt: pickFailure(rand, failureRate),
+    attempt: 1,
+  });
+  topic.status = 'in-progress';
+  return content;
+}
+
+// Picks a failed run back up at `fromIndex`, keeping what the earlier stages produced
+export function resumeRun(db: MockDb, run: RunRow, content: ContentRow, fromIndex: number, at: number, rand: () => number, failureRate: number) {
+  // Every attempt so far ended in exactly one failed call
+  const attempt = db.traces.filter((t) => t.run_id === run.id && t.status === 'error').length + 1;
+  // Verification appends claims and sources rather than replacing them, so clear the old ones before it runs again
+  if (fromIndex <= PIPELINE_STAGES.findIndex((p) => p.stage === 'verify')) {
+    db.claims = db.claims.filter((c) => c.content_id !== content.id);
+    db.sources = db.sources.filter((s) => s.content_id !== content.id);
+  }
+  run.status = 'running';
+  run.error_message = null;
+  run.finished_at = null;
+  content.stage = PIPELINE_STAGES[fromIndex].stage;
+  content.updated_at = iso(at);
+  db.jobs.runs.push({
+    runId: run.id,
+    contentId: content.id,
+    topicId: run.topic_id,
+    // Back-dated so the stages already done count as complete and the next one is due a stage from now
+    startedAt: at - fromIndex * STAGE_DURATION_MS,
+    completedStages: fromIndex,
+    failAt: pickFailure(rand, failureRate),
+    attempt,
+  });
+  const topic = db.topics.find((t) => t.id === run.topic_id);
+  if (topic) topic.status = 'in-progress';
+}
+
+export function buildIdea(rand: () => number, site: Site, wt: WatchTopicRow, scanRunId: string, n: number, at: number): IdeaRow {
+  const relevance = Number((0.4 + rand() * 0.6).toFixed(2));
+  const freshness = Number((0.3 + rand() * 0.7).toFixed(2));
+  const uniqueness = Number((0.3 + rand() * 0.7).toFixed(2));
+  return {
+    id: `idea-${scanRunId}-${n}`,
+    site_id: site.id,
+    watch_topic_id: wt.id,
+    title: `${pick(rand, ['What', 'Why', 'How'])} ${wt.name.toLowerCase()} ${pick(rand, ['changes in 2026', 'means for small teams', 'gets wrong', 'looks like in practice'])}`,
+    description: `Surfaced while scanning ${wt.name}.`,
+    angle: pick(rand, ['Contrarian take', 'Practical how-to', 'Data-driven explainer']),
+    source_urls: JSON.stringify([`https://news.example.com/${scanRunId}/${n}`]),
+    source_snippets: '[]',
+    relevance_score: relevance,
+    freshness_score: freshness,
+    uniqueness_score: uniqueness,
+    overall_score: Number(((relevance + freshness + uniqueness) / 3).toFixed(2)),
+    status: 'proposed',
+    dismissed_reason: null,
+    topic_id: null,
+    pillar_id: wt.pillar_id,
+    suggested_keywords: '[]',
+    suggested_content_type: 'article',
+    suggested_tone: null,
+    scan_run_id: scanRunId,
+    created_at: iso(at),
+    updated_at: iso(at),
+  };
+}
+
+// What the worker reports after fetching a published URL; most resolve, a few moved or went away
+export function checkUrl(rand: () => number, contentId: string, platform: string, url: string, at: number): UrlCheck {
+  const roll = rand();
+  const latency = Math.round(120 + rand() * 800);
+  const check = { content_id: contentId, platform, url, final_url: null, error_message: null, checked_at: iso(at) };
+  if (roll < 0.75) return { ...check, status: 'ok', http_status: 200, latency_ms: latency };
+  if (roll < 0.85) return { ...check, status: 'redirected', http_status: 301, final_url: `${url.replace(/\/$/, '')}-updated`, latency_ms: latency };
+  if (roll < 0.95) return { ...check, status: 'broken', http_status: 404, latency_ms: latency };
+  return { ...check, status: 'unreachable', http_status: null, latency_ms: null, error_message: 'Timed out after 10s' };
+}
+
+// Two sites with a few weeks of history: finished, failed and in-flight runs, review threads and scans
+export function createSeed(now = Date.now(), seed = 42): MockDb {
+  const rand = createRng(seed);
+  const db = emptyDb();
+
+  for (const spec of SITES) {
+    const site: Site = {
+      id: spec.id,
+      name: spec.name,
+      domain: spec.domain,
+      description: `${spec.name} — mock site`,
+      pipeline_config: '{}',
+      settings: '{}',
+      active: 1,
+    };
+    db.sites.push(site);
+
+    spec.pillars.forEach((name, i) => {
+      db.pillars.push({
+        id: `${spec.id}-pillar-${i}`,
+        site_id: site.id,
+        name,
+        slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        description: `Articles about ${name.toLowerCase()}`,
+        keywords: '[]',
+        priority: i,
+        active: 1,
+      });
+    });
+
+    db.voices.push({
+      id: `${spec.id}-voice`,
+      site_id: site.id,
+      name: 'House voice',
+      description: 'Plain-spoken, practical, lightly opinionated',
+      voice_guide: 'Short sentences. Concrete examples. No hype.',
+      active: 1,
+    });
+
+    spec.topics.forEach((title, i) => {
+      const createdAt = now - (30 - i * 2) * DAY;
+      const topic: TopicRow = {
+        id: `${spec.id}-topic-${i}`,
+        site_id: site.id,
+        pillar_id: `${spec.id}-pillar-${i % spec.pillars.length}`,
+        title,
+        description: `An article on ${title.toLowerCase()}.`,
+        angle: 'Practical, grounded in real teams',
+        target_keywords: JSON.stringify(title.toLowerCase().split(/\s+/).filter((w) => w.length > 5).slice(0, 3)),
+        content_type: 'article',
+        status: 'approved',
+        priority: i % 3,
+        scheduled_at: null,
+        source_hints: '[]',
+        created_at: iso(createdAt),
+        updated_at: iso(createdAt),
+      };
+      db.topics.push(topic);
+
+      // The last topic per site stays unrun and is pencilled in for later this week; the one before it
+      // is mid-pipeline right now
+      if (i === spec.topics.length - 1) {
+        topic.scheduled_at = iso(now + 3 * DAY);
+        return;
+      }
+      const inFlight = i === spec.topics.length - 2;
+      const startedAt = inFlight ? now - 2 * STAGE_DURATION_MS - 1000 : createdAt + DAY;
+      startRun(db, topic, startedAt, rand, inFlight ? 0 : 0.15);
+    });
+
+    // An earlier attempt at the first topic died in research before any content row was written
+    const orphanId = `run-${spec.id.slice(5)}-orphan`;
+    const orphanAt = now - 29 * DAY;
+    const orphanError = 'Provider timeout after 30000ms';
+    db.runs.push({
+      id: orphanId,
+      site_id: site.id,
+      topic_id: `${spec.id}-topic-0`,
+      content_id: null,
+      status: 'error',
+      error_message: orphanError,
+      started_at: iso(orphanAt),
+      finished_at: iso(orphanAt + STAGE_DURATION_MS),
+    });
+    db.traces.push(buildTrace(rand, orphanId, null, 0, orphanAt + STAGE_DURATION_MS, orphanError));
+
+    spec.watchTopics.forEach((name, i) => {
+      const createdAt = now - 40 * DAY;
+      const wt: WatchTopicRow = {
+        id: `${spec.id}-wt-${i}`,
+        site_id: site.id,
+        name,
+        description: null,
+        keywords: JSON.stringify(name.toLowerCase().split(/\s+/)),
+        source_types: JSON.stringify(['web', 'news']),
+        source_config: '{}',
+        scan_interval_hours: 24,
+        last_scanned_at: null,
+        max_ideas_per_scan: 5,
+        pillar_id: `${spec.id}-pillar-${i % spec.pillars.length}`,
+        active: 1,
+        created_at: iso(createdAt),
+        updated_at: iso(createdAt),
+      };
+      db.watchTopics.push(wt);
+
+      for (let s = 0; s < 2; s++) {
+        const at = now - (3 - s) * DAY;
+        const scanRunId = `${wt.id}-scan-${s}`;
+        const ideas = Array.from({ length: 3 }, (_, n) => buildIdea(rand, site, wt, scanRunId, n, at));
+        db.scanRuns.push({
+          id: scanRunId,
+          site_id: site.id,
+          watch_topic_id: wt.id,
+          status: 'running',
+          ideas_found: ideas.length + 1,
+          ideas_deduped: 1,
+          ideas_stored: ideas.length,
+          source_types_used: wt.source_types,
+          error_message: null,
+          tokens_used: 2000 + Math.floor(rand() * 3000),
+          latency_ms: null,
+          created_at: iso(at),
+          completed_at: null,
+        });
+        db.jobs.scans.push({ scanRunId, watchTopicId: wt.id, completesAt: at + SCAN_DURATION_MS, ideas });
+      }
+    });
+  }
+
+  advance(db, now, rand);
+
+  // Move older finished runs further along so every stage has something in it
+  const finished = db.content.filter((c) => c.stage === 'review');
+  finished.forEach((content, i) => {
+    const updated = new Date(content.updated_at || now).getTime();
+    if (i % 3 !== 2) content.reviewed_at = iso(Math.min(updated + DAY, now));
+    if (i % 3 === 0) {
+      content.stage = 'published';
+      content.published_at = iso(updated + 2 * DAY);
+      // Only some made it out to every platform they were formatted for
+      const urls: Record<string, string> = { web: `https://example.com/${content.slug}` };
+      if (i % 2 === 0) {
+        urls.linkedin = `https://www.linkedin.com/posts/${content.slug}`;
+        urls.twitter = `https://x.com/example/status/${1_800_000_000 + i}`;
+      }
+      content.published_urls = JSON.stringify(urls);
+      for (const [platform, url] of Object.entries(urls)) db.urlChecks.push(checkUrl(rand, content.id, platform, url, now - 6 * 3_600_000));
+    } else if (i % 3 === 1) {
+      content.stage = 'scheduled';
+      content.scheduled_publish_at = iso(now + (i + 1) * DAY);
+    } else {
+      seedReviewThread(db, content, updated + DAY);
+    }
+  });
+
+  const idea = db.ideas[0];
+  if (idea) {
+    idea.status = 'dismissed';
+    idea.dismissed_reason = 'Covered last quarter';
+  }
+
+  return db;
+}
+
+function seedReviewThread(db: MockDb, content: ContentRow, at: number) {
+  const previous = content.final_md;
+  const updated = `${previous}\n_Tightened the opening per editor feedback._\n`;
+  db.revisions.push({
+    id: `rev-${content.id}-1`,
+    content_id: content.id,
+    revision_number: 1,
+    changed_by: 'agent',
+    change_type: 'chat_edit',
+    previous_md: previous,
+    updated_md: updated,
+    diff_summary: 'Tightened the opening paragraph',
+    feedback: 'The intro is a bit slow',
+    agent_notes: null,
+    concerns: null,
+    fields_changed: JSON.stringify(['final_md']),
+    created_at: iso(at + 60_000),
+  });
+  content.final_md = updated;
+  db.reviewMessages.push(
+    {
+      id: `msg-${content.id}-1`,
+      content_id: content.id,
+      role: 'human',
+      message: 'The intro is a bit slow',
+      actions_taken: '[]',
+      stage_triggered: null,
+      revision_id: null,
+      created_at: iso(at),
+    },
+    {
+      id: `msg-${content.id}-2`,
+      content_id: content.id,
+      role: 'agent',
+      message: 'I tightened the opening paragraph and moved the key point up front.',
+      actions_taken: JSON.stringify([{ action: 'rewrite_section', details: 'Opening paragraph' }]),
+      stage_triggered: null,
+      revision_id: `rev-${content.id}-1`,
+      created_at: iso(at + 60_000),
+    },
+  );
+}
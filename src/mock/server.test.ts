@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchSites, fetchWatchTopics, updateWatchTopic } from '../lib/api';
+import { getEnvironment, getProfileToken, setEnvironment, setProfileToken } from '../lib/environments';
+import { createMockServer, installMockServer, uninstallMockServer } from './server';
+
+// Node has no localStorage; the environment profile lives there
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: (key) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  uninstallMockServer();
+  vi.unstubAllGlobals();
+});
+
+describe('installMockServer', () => {
+  it('serves api.ts calls from the mock and restores the previous profile on uninstall', async () => {
+    setEnvironment('staging');
+    setProfileToken('mock', 'saved');
+    const server = installMockServer();
+
+    expect(getEnvironment().id).toBe('mock');
+    const sites = await fetchSites();
+    expect(sites.map((s) => s.id)).toEqual(server.db.sites.map((s) => s.id));
+
+    uninstallMockServer();
+    expect(getEnvironment().id).toBe('staging');
+    expect(getProfileToken('mock')).toBe('saved');
+  });
+
+  it('only applies editable fields when updating a watch topic', async () => {
+    const server = installMockServer();
+    const [row] = server.db.watchTopics;
+
+    await updateWatchTopic(row.site_id, row.id, { name: 'Renamed', keywords: ['a', 'b'], created_at: '2000-01-01T00:00:00.000Z' });
+
+    const topic = (await fetchWatchTopics(row.site_id, true)).find((w) => w.id === row.id)!;
+    expect(topic.name).toBe('Renamed');
+    expect(topic.keywords).toEqual(['a', 'b']);
+    expect(topic.created_at).toBe(row.created_at);
+  });
+});
+
+describe('createMockServer', () => {
+  it('answers a malformed body with a 400', async () => {
+    const server = createMockServer();
+    const response = await server.fetch('mock://pipeline/api/sites/any', {
+      method: 'PUT',
+      headers: { Authorization: 'Bearer mock' },
+      body: '{not json',
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,773 @@
+import { setTransport, type Transport } from '../lib/api';
+import { getEnvironment, getProfileToken, setEnvironment, setProfileToken } from '../lib/environments';
+import { clearQueryCache } from '../lib/queryCache';
+import type { SourceSuggestion, SearchHit } from '../lib/types';
+import { searchTerms, snippetAround } from '../lib/search';
+import { createSeed, startRun, resumeRun, buildIdea, checkUrl, type MockDb, type ContentRow, type TopicRow, type WatchTopicRow, type RevisionRow, type ReviewMessageRow, type RunRow } from './fixtures';
+import { advance, createRng, iso, PIPELINE_STAGES, SCAN_DURATION_MS } from './simulation';
+
+export interface MockServerOptions {
+  // Start from these rows instead of the default fixtures
+  seed?: MockDb;
+  // Clock used for stage progression; tests can pass a controllable one
+  now?: () => number;
+  // Artificial delay per request so loading states are visible in the dev server
+  latencyMs?: number;
+  // Share of new pipeline runs that fail at a random stage
+  failureRate?: number;
+}
+
+export interface MockServer {
+  db: MockDb;
+  fetch: Transport;
+  reset: (seed?: MockDb) => void;
+}
+
+interface RouteContext {
+  db: MockDb;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  now: number;
+  rand: () => number;
+  failureRate: number;
+}
+
+type Handler = (ctx: RouteContext) => unknown;
+
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function notFound(what: string): never {
+  throw new MockHttpError(404, `${what} not found`);
+}
+
+function byNewest<T extends { created_at?: string }>(a: T, b: T): number {
+  return (b.created_at || '').localeCompare(a.created_at || '');
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Request bodies send arrays for JSON columns in some places and pre-encoded text in others
+function jsonText(value: unknown, fallback: string): string {
+  if (value === undefined || value === null) return fallback;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function findContent(db: MockDb, id: string) {
+  return db.content.find((c) => c.id === id) || notFound('Content');
+}
+
+function nextRevision(db: MockDb, contentId: string, fields: Omit<RevisionRow, 'id' | 'content_id' | 'revision_number'>): RevisionRow {
+  const number = db.revisions.filter((r) => r.content_id === contentId).length + 1;
+  const revision: RevisionRow = { id: `rev-${contentId}-${number}`, content_id: contentId, revision_number: number, ...fields };
+  db.revisions.push(revision);
+  return revision;
+}
+
+// Joins a stored run with its topic, content and traces the way the worker's runs index does
+function runSummary(db: MockDb, run: RunRow) {
+  const traces = db.traces.filter((t) => t.run_id === run.id).sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  const content = run.content_id ? db.content.find((c) => c.id === run.content_id) : undefined;
+  const topic = db.topics.find((t) => t.id === run.topic_id);
+  return {
+    ...run,
+    title: content?.title || topic?.title || null,
+    current_stage: run.status === 'running' ? content?.stage || null : null,
+    stages: traces.map((t) => t.stage),
+    total_tokens: traces.reduce((sum, t) => sum + (t.total_tokens || 0), 0),
+    total_latency_ms: traces.reduce((sum, t) => sum + (t.latency_ms || 0), 0),
+    total_cost_usd: Number(traces.reduce((sum, t) => sum + (t.estimated_cost_usd || 0), 0).toFixed(6)),
+  };
+}
+
+type SortValue = string | number | null;
+
+// Keyset pagination over [sort value, id]: rows created while paging don't shift later pages.
+// Nulls always sort last; ties break on id so the order is total and cursors are stable.
+function keysetPage<T extends { id: string }>(rows: T[], value: (row: T) => SortValue, dir: 1 | -1, cursor: string | undefined, limit: number) {
+  const key = (row: T): [SortValue, string] => [value(row), row.id];
+  const compare = ([av, aid]: [SortValue, string], [bv, bid]: [SortValue, string]) => {
+    if (av !== bv) {
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      return (av < bv ? -1 : 1) * dir;
+    }
+    return aid < bid ? dir : aid > bid ? -dir : 0;
+  };
+  const sorted = [...rows].sort((a, b) => compare(key(a), key(b)));
+  const after = cursor ? JSON.parse(atob(cursor)) as [SortValue, string] : null;
+  const start = after ? sorted.findIndex((row) => compare(key(row), after) > 0) : 0;
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+  return { rows: page, nextCursor: hasMore && last ? btoa(JSON.stringify(key(last))) : null, total: sorted.length };
+}
+
+type SearchField<T> = [string, (row: T) => string | null | undefined];
+
+// Every term has to appear somewhere in the row; the snippet comes from the first field the lead term hits
+function searchRows<T extends { id: string }>(rows: T[], terms: string[], fields: SearchField<T>[], describe: (row: T) => { title: string; status: string }, limit: number): SearchHit[] {
+  if (!terms.length) return [];
+  const hits: SearchHit[] = [];
+  for (const row of rows) {
+    const texts = fields.map(([name, get]) => [name, get(row) || ''] as const);
+    const haystack = texts.map(([, text]) => text.toLowerCase()).join('\n');
+    if (!terms.every((term) => haystack.includes(term))) continue;
+    const [field, text] = texts.find(([, t]) => t.toLowerCase().includes(terms[0])) || texts[0];
+    hits.push({ id: row.id, ...describe(row), field, snippet: field === 'title' ? null : snippetAround(text, terms[0]) });
+    if (hits.length === limit) break;
+  }
+  return hits;
+}
+
+// ============================================================
+// Routes
+// ============================================================
+
+const routes: Array<[string, string, Handler]> = [
+  ['GET', '/api/sites', ({ db }) => ({ sites: db.sites })],
+
+  ['PUT', '/api/sites/:siteId', ({ db, params, body }) => {
+    const site = db.sites.find((s) => s.id === params.siteId) || notFound('Site');
+    if ('settings' in body) {
+      const settings = str(body.settings) || '';
+      try {
+        JSON.parse(settings);
+      } catch {
+        throw new MockHttpError(400, 'settings must be JSON text');
+      }
+      site.settings = settings;
+    }
+    return { site };
+  }],
+
+  ['GET', '/api/sites/:siteId/topics', ({ db, params }) => ({
+    topics: db.topics.filter((t) => t.site_id === params.siteId).sort(byNewest),
+  })],
+
+  ['POST', '/api/sites/:siteId/topics', ({ db, params, body, now }) => {
+    const id = `topic-${now.toString(36)}`;
+    const topic: TopicRow = {
+      id,
+      site_id: params.siteId,
+      pillar_id: str(body.pillar_id) || null,
+      title: str(body.title) || 'Untitled',
+      description: str(body.description) || '',
+      angle: str(body.angle) || '',
+      target_keywords: '[]',
+      content_type: str(body.content_type) || 'article',
+      status: str(body.status) || 'idea',
+      priority: typeof body.priority === 'number' ? body.priority : 0,
+      scheduled_at: null,
+      source_hints: jsonText(body.source_hints, '[]'),
+      tone: str(body.tone),
+      style: str(body.style),
+      target_length: typeof body.target_length === 'number' ? body.target_length : undefined,
+      created_at: iso(now),
+      updated_at: iso(now),
+    };
+    db.topics.push(topic);
+    return { id, success: true };
+  }],
+
+  ['PUT', '/api/sites/:siteId/topics/:id', ({ db, params, body, now }) => {
+    const topic = db.topics.find((t) => t.id === params.id && t.site_id === params.siteId) || notFound('Topic');
+    if ('scheduled_at' in body) topic.scheduled_at = str(body.scheduled_at) || null;
+    topic.updated_at = iso(now);
+    return { success: true };
+  }],
+
+  ['POST', '/api/sites/:siteId/topics/suggest-sources', ({ body }): { sources: SourceSuggestion[] } => {
+    const title = str(body.title) || 'this topic';
+    return {
+      sources: [1, 2, 3].map((n) => ({
+        url: `https://example.com/suggested/${n}`,
+        title: `${title}: reference ${n}`,
+        snippet: 'A relevant passage from the suggested source.',
+        relevance: n === 1 ? 'high' : 'medium',
+      })),
+    };
+  }],
+
+  ['GET', '/api/sites/:siteId/pillars', ({ db, params }) => ({
+    pillars: db.pillars.filter((p) => p.site_id === params.siteId),
+  })],
+
+  ['POST', '/api/sites/:siteId/pillars', ({ db, params, body, now }) => {
+    const id = `pillar-${now.toString(36)}`;
+    db.pillars.push({
+      id,
+      site_id: params.siteId,
+      name: str(body.name) || 'Untitled',
+      slug: str(body.slug) || id,
+      description: str(body.description) || '',
+      keywords: '[]',
+      priority: 0,
+      active: 1,
+    });
+    return { id, success: true };
+  }],
+
+  ['GET', '/api/sites/:siteId/voices', ({ db, params }) => ({
+    voices: db.voices.filter((v) => v.site_id === params.siteId),
+  })],
+
+  ['GET', '/api/content', ({ db, query }) => {
+    const get = (name: string) => query.get(name) || undefined;
+    const siteId = get('site_id');
+    const stage = get('stage');
+    const minQuality = get('min_quality');
+    const maxQuality = get('max_quality');
+    const tag = get('tag');
+    const from = get('scheduled_from');
+    const to = get('scheduled_to');
+    const limit = Number(query.get('limit') || 50);
+    const matching = db.content.filter((c) => (!siteId || c.site_id === siteId)
+      && (!stage || c.stage === stage)
+      && (minQuality === undefined || (c.quality_score !== null && c.quality_score >= Number(minQuality)))
+      && (maxQuality === undefined || (c.quality_score !== null && c.quality_score <= Number(maxQuality)))
+      && (!get('category') || c.category === get('category'))
+      && (!tag || (c.tags ? (JSON.parse(c.tags) as string[]).includes(tag) : false))
+      && (!get('requires_review') || c.requires_review === 1)
+      && (!from || (!!c.scheduled_publish_at && c.scheduled_publish_at >= from))
+      && (!to || (!!c.scheduled_publish_at && c.scheduled_publish_at.slice(0, 10) <= to))
+      && (!get('voice_profile_id') || c.voice_profile_id === get('voice_profile_id')));
+
+    const sortField = (get('sort') || 'created_at') as keyof ContentRow;
+    const page = keysetPage(matching, (c) => c[sortField] as SortValue ?? null, get('order') === 'asc' ? 1 : -1, get('cursor'), limit);
+    return { content: page.rows, next_cursor: page.nextCursor, total: page.total };
+  }],
+
+  ['GET', '/api/content/stats', ({ db, query }) => {
+    const siteId = query.get('site_id');
+    const rows = db.content.filter((c) => !siteId || c.site_id === siteId);
+    const byStage: Record<string, number> = {};
+    const byCategory: Record<string, number> = {};
+    const byTag: Record<string, number> = {};
+    rows.forEach((c) => {
+      byStage[c.stage] = (byStage[c.stage] || 0) + 1;
+      if (c.category) byCategory[c.category] = (byCategory[c.category] || 0) + 1;
+      (c.tags ? JSON.parse(c.tags) as string[] : []).forEach((tag) => { byTag[tag] = (byTag[tag] || 0) + 1; });
+    });
+    const scored = rows.filter((c) => c.quality_score !== null);
+    return {
+      total: rows.length,
+      by_stage: byStage,
+      by_category: byCategory,
+      by_tag: byTag,
+      avg_quality: scored.length ? scored.reduce((sum, c) => sum + (c.quality_score || 0), 0) / scored.length : null,
+    };
+  }],
+
+  ['GET', '/api/content/metrics', ({ db, query }) => {
+    const ids = (query.get('ids') || '').split(',').filter(Boolean);
+    const tally = (values: string[]) => values.reduce<Record<string, number>>((acc, v) => ({ ...acc, [v]: (acc[v] || 0) + 1 }), {});
+    const metrics = ids.map((id) => {
+      const content = findContent(db, id);
+      const traces = content.run_id ? db.traces.filter((t) => t.run_id === content.run_id) : [];
+      return {
+        content_id: id,
+        claims_by_status: tally(db.claims.filter((c) => c.content_id === id).map((c) => c.status)),
+        sources_by_reliability: tally(db.sources.filter((src) => src.content_id === id).map((src) => src.reliability)),
+        total_tokens: traces.reduce((sum, t) => sum + (t.total_tokens || 0), 0),
+        cost_usd: traces.reduce((sum, t) => sum + (t.estimated_cost_usd || 0), 0),
+      };
+    });
+    return { metrics };
+  }],
+
+  ['GET', '/api/content/:id', ({ db, params }) => ({
+    content: findContent(db, params.id),
+    claims: db.claims.filter((c) => c.content_id === params.id),
+    sources: db.sources.filter((s) => s.content_id === params.id),
+  })],
+
+  ['PUT', '/api/content/:id', ({ db, params, body, now }) => {
+    const content = findContent(db, params.id);
+    if ('scheduled_publish_at' in body) content.scheduled_publish_at = str(body.scheduled_publish_at) || null;
+    content.updated_at = iso(now);
+    return { success: true };
+  }],
+
+  ['GET', '/api/sites/:siteId/url-checks', ({ db, params, query }) => {
+    const contentId = query.get('content_id');
+    const ids = new Set(db.content.filter((c) => c.site_id === params.siteId && (!contentId || c.id === contentId)).map((c) => c.id));
+    return { checks: db.urlChecks.filter((check) => ids.has(check.content_id)) };
+  }],
+
+  // Stands in for the worker fetching each URL server-side; only the latest result per URL is kept
+  ['POST', '/api/sites/:siteId/url-checks', ({ db, params, body, now, rand }) => {
+    const contentId = str(body.content_id);
+    if (contentId && findContent(db, contentId).site_id !== params.siteId) notFound('Content');
+    const checks = db.content
+      .filter((c) => c.site_id === params.siteId && (!contentId || c.id === contentId) && c.published_urls)
+      .flatMap((c) => Object.entries(JSON.parse(c.published_urls!) as Record<string, string>)
+        .map(([platform, url]) => checkUrl(rand, c.id, platform, url, now)));
+    const checked = new Set(checks.map((check) => `${check.content_id}/${check.platform}`));
+    db.urlChecks = [...db.urlChecks.filter((check) => !checked.has(`${check.content_id}/${check.platform}`)), ...checks];
+    return { checks };
+  }],
+
+  ['GET', '/api/search', ({ db, query }) => {
+    const siteId = query.get('site_id');
+    const terms = searchTerms(query.get('q') || '');
+    const limit = Number(query.get('limit') || 8);
+    const inSite = <T extends { site_id: string }>(rows: T[]) => rows.filter((r) => !siteId || r.site_id === siteId);
+    return {
+      content: searchRows(inSite(db.content).sort(byNewest), terms, [
+        ['title', (c) => c.title],
+        ['excerpt', (c) => c.excerpt],
+        ['slug', (c) => c.slug],
+        ['tags', (c) => (c.tags ? (JSON.parse(c.tags) as string[]).join(' ') : null)],
+        ['body', (c) => c.final_md || c.draft_md],
+      ], (c) => ({ title: c.title || 'Untitled', status: c.stage }), limit),
+      topics: searchRows(inSite(db.topics).sort(byNewest), terms, [
+        ['title', (t) => t.title],
+        ['description', (t) => t.description],
+      ], (t) => ({ title: t.title, status: t.status }), limit),
+      ideas: searchRows(inSite(db.ideas).sort(byNewest), terms, [
+        ['title', (i) => i.title],
+        ['angle', (i) => i.angle],
+      ], (i) => ({ title: i.title, status: i.status }), limit),
+    };
+  }],
+
+  ['GET', '/api/traces', ({ db, query }) => {
+    const runId = query.get('run_id');
+    if (runId) return { traces: db.traces.filter((t) => t.run_id === runId) };
+    const runIds = query.get('run_ids');
+    if (runIds) {
+      const ids = new Set(runIds.split(','));
+      return { traces: db.traces.filter((t) => ids.has(t.run_id)) };
+    }
+    // Site-wide: traces belong to a site through their run
+    const siteRuns = new Set(db.runs.filter((r) => r.site_id === query.get('site_id')).map((r) => r.id));
+    const from = query.get('from');
+    const to = query.get('to');
+    return {
+      traces: db.traces.filter((t) => siteRuns.has(t.run_id)
+        && (!from || (t.created_at || '').slice(0, 10) >= from)
+        && (!to || (t.created_at || '').slice(0, 10) <= to)),
+    };
+  }],
+
+  ['GET', '/api/pipeline/status/:runId', ({ db, params }) => ({
+    content: db.content.find((c) => c.run_id === params.runId) || notFound('Run'),
+    traces: db.traces.filter((t) => t.run_id === params.runId),
+  })],
+
+  ['GET', '/api/pipeline/runs', ({ db, query }) => {
+    const siteId = query.get('site_id');
+    const status = query.get('status');
+    const topicId = query.get('topic_id');
+    const runIds = query.get('run_ids') ? new Set(query.get('run_ids')!.split(',')) : null;
+    const from = query.get('from');
+    const to = query.get('to');
+    const matching = db.runs.filter((r) => (!siteId || r.site_id === siteId)
+      && (!status || r.status === status)
+      && (!topicId || r.topic_id === topicId)
+      && (!runIds || runIds.has(r.id))
+      && (!from || r.started_at.slice(0, 10) >= from)
+      && (!to || r.started_at.slice(0, 10) <= to));
+    const page = keysetPage(matching, (r) => r.started_at, -1, query.get('cursor') || undefined, Number(query.get('limit') || 25));
+    return { runs: page.rows.map((r) => runSummary(db, r)), next_cursor: page.nextCursor, total: page.total };
+  }],
+
+  ['POST', '/api/pipeline/run', ({ db, body, now, rand, failureRate }) => {
+    const topic = db.topics.find((t) => t.id === body.topic_id) || notFound('Topic');
+    const content = startRun(db, topic, now, rand, failureRate);
+    return { run_id: content.run_id, content_id: content.id, status: 'started' };
+  }],
+
+  ['POST', '/api/pipeline/resume', ({ db, body, now, rand, failureRate }) => {
+    const run = db.runs.find((r) => r.id === body.run_id) || notFound('Run');
+    const content = db.content.find((c) => c.id === run.content_id);
+    if (!content) throw new MockHttpError(409, 'This run never produced content, start a new run instead');
+    if (content.stage !== 'failed') throw new MockHttpError(409, 'Only failed runs can be resumed');
+    const failed = db.traces.filter((t) => t.run_id === run.id && t.status === 'error').sort(byNewest)[0];
+    const failedIndex = PIPELINE_STAGES.findIndex((p) => p.stage === failed?.stage);
+    const fromIndex = PIPELINE_STAGES.findIndex((p) => p.stage === body.from_stage);
+    if (fromIndex < 0) throw new MockHttpError(400, 'from_stage must be a pipeline stage');
+    if (failedIndex >= 0 && fromIndex > failedIndex) {
+      throw new MockHttpError(400, `Can't resume after ${PIPELINE_STAGES[failedIndex].stage}, the stage that failed`);
+    }
+    resumeRun(db, run, content, fromIndex, now, rand, failureRate);
+    return { run_id: run.id, content_id: content.id, status: 'resumed' };
+  }],
+
+  ['GET', '/api/content/:id/review/messages', ({ db, params }) => ({
+    messages: db.reviewMessages.filter((m) => m.content_id === params.id).sort((a, b) => -byNewest(a, b)),
+  })],
+
+  ['POST', '/api/content/:id/review/chat', ({ db, params, body, now }) => {
+    const content = findContent(db, params.id);
+    const message = str(body.message) || '';
+    const human: ReviewMessageRow = {
+      id: `msg-${now.toString(36)}-h`,
+      content_id: content.id,
+      role: 'human',
+      message,
+      actions_taken: '[]',
+      stage_triggered: null,
+      revision_id: null,
+      created_at: iso(now),
+    };
+    // Questions get an answer; anything else is treated as an edit request
+    const isQuestion = message.trim().endsWith('?');
+    const actions = isQuestion
+      ? [{ action: 'no_change_needed', details: 'Answered without editing' }]
+      : [{ action: 'rewrite_section', details: 'Applied the requested change' }];
+    let revision: RevisionRow | null = null;
+    if (!isQuestion) {
+      const previous = content.final_md || content.draft_md || '';
+      const updated = `${previous}\n_Revised per feedback: ${message}_\n`;
+      revision = nextRevision(db, content.id, {
+        changed_by: 'agent',
+        change_type: 'chat_edit',
+        previous_md: previous,
+        updated_md: updated,
+        diff_summary: 'Applied reviewer feedback',
+        feedback: message,
+        agent_notes: null,
+        concerns: null,
+        fields_changed: JSON.stringify(['final_md']),
+        created_at: iso(now),
+      });
+      content.final_md = updated;
+      content.updated_at = iso(now);
+    }
+    const reply = isQuestion ? 'Good question — the draft already covers that in the second section.' : 'Done. I applied that change to the draft.';
+    db.reviewMessages.push(human, {
+      id: `msg-${now.toString(36)}-a`,
+      content_id: content.id,
+      role: 'agent',
+      message: reply,
+      actions_taken: JSON.stringify(actions),
+      stage_triggered: null,
+      revision_id: revision?.id || null,
+      created_at: iso(now + 1),
+    });
+    return { message: reply, actions_taken: actions, revision, updated_content: revision ? content : null, concerns: [] };
+  }],
+
+  ['GET', '/api/content/:id/revisions', ({ db, params }) => ({
+    revisions: db.revisions.filter((r) => r.content_id === params.id).sort((a, b) => b.revision_number - a.revision_number),
+  })],
+
+  ['POST', '/api/content/:id/revisions', ({ db, params, body, now }) => {
+    const content = findContent(db, params.id);
+    const updated = str(body.updated_md) || '';
+    const revision = nextRevision(db, content.id, {
+      changed_by: 'human',
+      change_type: 'manual_edit',
+      previous_md: content.final_md,
+      updated_md: updated,
+      diff_summary: null,
+      feedback: null,
+      agent_notes: null,
+      concerns: null,
+      fields_changed: jsonText(body.fields_changed, '["final_md"]'),
+      created_at: iso(now),
+    });
+    content.final_md = updated;
+    content.updated_at = iso(now);
+    return { revision, concerns: [] };
+  }],
+
+  ['POST', '/api/content/:id/review/approve', ({ db, params, body, now }) => {
+    const content = findContent(db, params.id);
+    if (content.stage !== 'review') throw new MockHttpError(409, 'Only content in review can be approved');
+    content.stage = str(body.target_stage) || 'scheduled';
+    if (content.stage === 'scheduled') content.scheduled_publish_at = iso(now + 86_400_000);
+    if (content.stage === 'published') {
+      content.published_at = iso(now);
+      content.published_urls = JSON.stringify({ web: `https://example.com/${content.slug}` });
+    }
+    content.reviewed_at = iso(now);
+    content.updated_at = iso(now);
+    return { success: true };
+  }],
+
+  ['POST', '/api/content/:id/review/reject', ({ db, params, body, now }) => {
+    const content = findContent(db, params.id);
+    if (content.stage !== 'review') throw new MockHttpError(409, 'Only content in review can be rejected');
+    content.stage = str(body.target_stage) || 'draft';
+    content.reviewed_at = iso(now);
+    content.updated_at = iso(now);
+    nextRevision(db, content.id, {
+      changed_by: 'human',
+      change_type: 'rejection',
+      previous_md: content.final_md,
+      updated_md: content.final_md,
+      diff_summary: null,
+      feedback: str(body.feedback) || null,
+      agent_notes: null,
+      concerns: null,
+      fields_changed: '[]',
+      created_at: iso(now),
+    });
+    return { success: true };
+  }],
+
+  ['GET', '/api/sites/:siteId/watch-topics', ({ db, params, query }) => ({
+    watch_topics: db.watchTopics.filter((w) => w.site_id === params.siteId && (query.get('active') === 'false' || w.active)),
+  })],
+
+  ['POST', '/api/sites/:siteId/watch-topics', ({ db, params, body, now }) => {
+    const id = `wt-${now.toString(36)}`;
+    const wt: WatchTopicRow = {
+      id,
+      site_id: params.siteId,
+      name: str(body.name) || 'Untitled',
+      description: str(body.description) || null,
+      keywords: jsonText(body.keywords, '[]'),
+      source_types: jsonText(body.source_types, '["web"]'),
+      source_config: '{}',
+      scan_interval_hours: typeof body.scan_interval_hours === 'number' ? body.scan_interval_hours : 24,
+      last_scanned_at: null,
+      max_ideas_per_scan: typeof body.max_ideas_per_scan === 'number' ? body.max_ideas_per_scan : 5,
+      pillar_id: str(body.pillar_id) || null,
+      active: 1,
+      created_at: iso(now),
+      updated_at: iso(now),
+    };
+    db.watchTopics.push(wt);
+    return { id, success: true };
+  }],
+
+  ['PUT', '/api/sites/:siteId/watch-topics/:id', ({ db, params, body, now }) => {
+    const wt = db.watchTopics.find((w) => w.id === params.id && w.site_id === params.siteId) || notFound('Watch topic');
+    if ('name' in body) wt.name = str(body.name) || wt.name;
+    if ('description' in body) wt.description = str(body.description) || null;
+    if ('keywords' in body) wt.keywords = jsonText(body.keywords, '[]');
+    if ('source_types' in body) wt.source_types = jsonText(body.source_types, '["web"]');
+    if ('source_config' in body) wt.source_config = jsonText(body.source_config, '{}');
+    if (typeof body.scan_interval_hours === 'number') wt.scan_interval_hours = body.scan_interval_hours;
+    if (typeof body.max_ideas_per_scan === 'number') wt.max_ideas_per_scan = body.max_ideas_per_scan;
+    if ('pillar_id' in body) wt.pillar_id = str(body.pillar_id) || null;
+    if ('active' in body) wt.active = body.active ? 1 : 0;
+    wt.updated_at = iso(now);
+    return { success: true };
+  }],
+
+  ['DELETE', '/api/sites/:siteId/watch-topics/:id', ({ db, params }) => {
+    db.watchTopics = db.watchTopics.filter((w) => w.id !== params.id);
+    return { success: true };
+  }],
+
+  ['GET', '/api/sites/:siteId/ideas', ({ db, params, query }) => {
+    const status = query.get('status');
+    const watchTopicId = query.get('watch_topic_id');
+    const minScore = Number(query.get('min_score') || 0);
+    const limit = Number(query.get('limit') || 100);
+    const ideas = db.ideas
+      .filter((i) => i.site_id === params.siteId
+        && (!status || i.status === status)
+        && (!watchTopicId || i.watch_topic_id === watchTopicId)
+        && (i.overall_score || 0) >= minScore)
+      .sort((a, b) => (b.overall_score || 0) - (a.overall_score || 0))
+      .slice(0, limit);
+    return { ideas };
+  }],
+
+  ['PUT', '/api/sites/:siteId/ideas/:id', ({ db, params, body, now }) => {
+    const idea = db.ideas.find((i) => i.id === params.id && i.site_id === params.siteId) || notFound('Idea');
+    // Status only moves through approve and dismiss
+    if ('title' in body) idea.title = str(body.title) || idea.title;
+    if ('description' in body) idea.description = str(body.description) || null;
+    if ('angle' in body) idea.angle = str(body.angle) || null;
+    if ('source_urls' in body) idea.source_urls = jsonText(body.source_urls, '[]');
+    if ('pillar_id' in body) idea.pillar_id = str(body.pillar_id) || null;
+    if ('suggested_keywords' in body) idea.suggested_keywords = jsonText(body.suggested_keywords, '[]');
+    if ('suggested_content_type' in body) idea.suggested_content_type = str(body.suggested_content_type) || idea.suggested_content_type;
+    if ('suggested_tone' in body) idea.suggested_tone = str(body.suggested_tone) || null;
+    idea.updated_at = iso(now);
+    return { success: true };
+  }],
+
+  ['POST', '/api/sites/:siteId/ideas/:id/approve', ({ db, params, now }) => {
+    const idea = db.ideas.find((i) => i.id === params.id) || notFound('Idea');
+    const topicId = `topic-${idea.id}`;
+    db.topics.push({
+      id: topicId,
+      site_id: idea.site_id,
+      pillar_id: idea.pillar_id,
+      title: idea.title,
+      description: idea.description || '',
+      angle: idea.angle || '',
+      target_keywords: idea.suggested_keywords,
+      content_type: idea.suggested_content_type,
+      status: 'approved',
+      priority: 1,
+      scheduled_at: null,
+      source_hints: idea.source_urls,
+      tone: idea.suggested_tone || undefined,
+      created_at: iso(now),
+      updated_at: iso(now),
+    });
+    Object.assign(idea, { status: 'converted', topic_id: topicId, updated_at: iso(now) });
+    return { success: true, topic_id: topicId };
+  }],
+
+  ['POST', '/api/sites/:siteId/ideas/:id/dismiss', ({ db, params, body, now }) => {
+    const idea = db.ideas.find((i) => i.id === params.id) || notFound('Idea');
+    Object.assign(idea, { status: 'dismissed', dismissed_reason: str(body.reason) || null, updated_at: iso(now) });
+    return { success: true };
+  }],
+
+  ['POST', '/api/ideas/scan', ({ db, body, now, rand }) => {
+    const targets = db.watchTopics.filter((w) => w.active
+      && (!body.site_id || w.site_id === body.site_id)
+      && (!body.watch_topic_id || w.id === body.watch_topic_id));
+    let found = 0;
+    let stored = 0;
+    for (const wt of targets) {
+      const site = db.sites.find((s) => s.id === wt.site_id);
+      if (!site) continue;
+      const scanRunId = `${wt.id}-scan-${now.toString(36)}`;
+      const ideas = Array.from({ length: 1 + Math.floor(rand() * wt.max_ideas_per_scan) }, (_, n) => buildIdea(rand, site, wt, scanRunId, n, now));
+      found += ideas.length + 1;
+      stored += ideas.length;
+      db.scanRuns.push({
+        id: scanRunId,
+        site_id: site.id,
+        watch_topic_id: wt.id,
+        status: 'running',
+        ideas_found: ideas.length + 1,
+        ideas_deduped: 1,
+        ideas_stored: ideas.length,
+        source_types_used: wt.source_types,
+        error_message: null,
+        tokens_used: 2000 + Math.floor(rand() * 3000),
+        latency_ms: null,
+        created_at: iso(now),
+        completed_at: null,
+      });
+      db.jobs.scans.push({ scanRunId, watchTopicId: wt.id, completesAt: now + SCAN_DURATION_MS, ideas });
+    }
+    return { scan_runs: targets.length, total_ideas_found: found, total_ideas_stored: stored, total_ideas_deduped: found - stored };
+  }],
+
+  ['GET', '/api/ideas/scan-runs', ({ db, query }) => {
+    const siteId = query.get('site_id');
+    const watchTopicId = query.get('watch_topic_id');
+    const limit = Number(query.get('limit') || 20);
+    const scanRuns = db.scanRuns
+      .filter((r) => (!siteId || r.site_id === siteId) && (!watchTopicId || r.watch_topic_id === watchTopicId))
+      .sort(byNewest)
+      .slice(0, limit);
+    return { scan_runs: scanRuns };
+  }],
+];
+
+const compiled = routes.map(([method, pattern, handler]) => {
+  const names: string[] = [];
+  const source = pattern.replace(/:(\w+)/g, (_, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  return { method, regex: new RegExp(`^${source}$`), names, handler };
+});
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// ============================================================
+// Server
+// ============================================================
+
+export function createMockServer(options: MockServerOptions = {}): MockServer {
+  const now = options.now || Date.now;
+  const rand = createRng(now());
+  const server: MockServer = {
+    db: options.seed || createSeed(now()),
+    reset: (seed) => {
+      server.db = seed || createSeed(now());
+    },
+    fetch: async (input, init = {}) => {
+      if (options.latencyMs) await delay(options.latencyMs, init.signal);
+      init.signal?.throwIfAborted();
+
+      const headers = new Headers(init.headers);
+      if (!headers.get('Authorization')?.replace(/^Bearer\s*/, '')) return json(401, { error: 'Unauthorized' });
+
+      const url = new URL(input);
+      const method = (init.method || 'GET').toUpperCase();
+      const route = compiled.find((r) => r.method === method && r.regex.test(url.pathname));
+      if (!route) return json(404, { error: `No mock route for ${method} ${url.pathname}` });
+
+      const match = url.pathname.match(route.regex)!;
+      const params = Object.fromEntries(route.names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      let body;
+      try {
+        body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : {};
+      } catch {
+        return json(400, { error: 'Request body must be JSON' });
+      }
+      const at = now();
+      advance(server.db, at, rand);
+      try {
+        const result = route.handler({ db: server.db, params, query: url.searchParams, body, now: at, rand, failureRate: options.failureRate ?? 0.1 });
+        // Round-trip so callers never hold references into the mock's tables
+        return json(200, result);
+      } catch (e) {
+        if (e instanceof MockHttpError) return json(e.status, { error: e.message });
+        return json(500, { error: e instanceof Error ? e.message : String(e) });
+      }
+    },
+  };
+  return server;
+}
+
+let shared: MockServer | null = null;
+
+// Backs the "Mock" environment in the dev server; state lives until the page reloads
+export function mockFetch(input: string, init?: RequestInit): Promise<Response> {
+  shared ||= createMockServer({ latencyMs: 250 });
+  return shared.fetch(input, init);
+}
+
+// What installMockServer switched away from, put back on uninstall
+let previousProfile: { envId: string; token: string | null } | null = null;
+
+// For component tests: points every api.ts call at a fresh mock server and signs in to it
+export function installMockServer(options: MockServerOptions = {}): MockServer {
+  const server = createMockServer(options);
+  previousProfile ||= { envId: getEnvironment().id, token: getProfileToken('mock') };
+  setEnvironment('mock');
+  setProfileToken('mock', 'mock');
+  clearQueryCache();
+  setTransport(server.fetch);
+  return server;
+}
+
+export function uninstallMockServer() {
+  setTransport(null);
+  clearQueryCache();
+  if (previousProfile) {
+    setEnvironment(previousProfile.envId);
+    setProfileToken('mock', previousProfile.token);
+    previousProfile = null;
+  }
+}
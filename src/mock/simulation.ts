@@ -0,0 +1,222 @@
+import type { Trace, Claim, Source } from '../lib/types';
+import type { MockDb, ContentRow, IdeaRow } from './fixtures';
+
+// Stages a mock run walks through, and the model each one calls
+export const PIPELINE_STAGES = [
+  { stage: 'research', provider: 'openai', model: 'gpt-4o-mini', input: 1800, output: 900 },
+  { stage: 'draft', provider: 'openai', model: 'gpt-4o', input: 3200, output: 2600 },
+  { stage: 'verify', provider: 'openai', model: 'gpt-4o-mini', input: 2900, output: 700 },
+  { stage: 'format', provider: 'workers-ai', model: '@cf/meta/llama-3.1-8b-instruct', input: 2700, output: 2500 },
+  { stage: 'edit', provider: 'openai', model: 'gpt-4o', input: 3000, output: 2400 },
+];
+
+// USD per million tokens: [input, output]
+export const MODEL_PRICES: Record<string, [number, number]> = {
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  '@cf/meta/llama-3.1-8b-instruct': [0.28, 0.83],
+};
+
+export const STAGE_DURATION_MS = 4000;
+export const SCAN_DURATION_MS = 6000;
+
+export interface PipelineJob {
+  runId: string;
+  contentId: string;
+  topicId: string | null;
+  startedAt: number;
+  completedStages: number;
+  failAt: string | null;
+  // Resumed runs repeat stages, so their traces need distinct ids
+  attempt: number;
+}
+
+export interface ScanJob {
+  scanRunId: string;
+  watchTopicId: string;
+  completesAt: number;
+  ideas: IdeaRow[];
+}
+
+// Small seeded PRNG so fixtures and simulated runs are reproducible
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+export function pick<T>(rand: () => number, items: readonly T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+function jitter(rand: () => number, value: number, spread = 0.3): number {
+  return Math.round(value * (1 - spread + rand() * spread * 2));
+}
+
+export function buildTrace(rand: () => number, runId: string, contentId: string | null, index: number, at: number, error?: string, attempt = 1): Trace {
+  const plan = PIPELINE_STAGES[index];
+  const input = jitter(rand, plan.input);
+  const output = error ? 0 : jitter(rand, plan.output);
+  const [inPrice, outPrice] = MODEL_PRICES[plan.model];
+  return {
+    id: `trace-${runId}-${plan.stage}${attempt > 1 ? `-${attempt}` : ''}`,
+    run_id: runId,
+    content_id: contentId,
+    stage: plan.stage,
+    provider: plan.provider,
+    model: plan.model,
+    system_prompt_hash: `${plan.stage}-${rand() < 0.8 ? 'a41f' : '9c07'}`,
+    input_tokens: input,
+    output_tokens: output,
+    total_tokens: input + output,
+    // Calls fit inside the simulated stage so the waterfall shows some queueing; now and then one drags
+    latency_ms: error ? jitter(rand, 1500, 0.5) : Math.round(jitter(rand, STAGE_DURATION_MS * 0.55, 0.25) * (rand() < 0.08 ? 1.6 : 1)),
+    status: error ? 'error' : 'success',
+    error_message: error || null,
+    estimated_cost_usd: Number(((input * inPrice + output * outPrice) / 1_000_000).toFixed(6)),
+    created_at: iso(at),
+  };
+}
+
+const FAILURES = [
+  'Provider timeout after 30000ms',
+  'Rate limited by upstream provider (429)',
+  'Model returned invalid JSON for stage output',
+];
+
+export function pickFailure(rand: () => number, failureRate: number): string | null {
+  if (rand() >= failureRate) return null;
+  return pick(rand, PIPELINE_STAGES).stage;
+}
+
+export function articleMarkdown(title: string, rand: () => number): string {
+  const sections = ['Why it matters', 'What changed', 'How to get started', 'What to watch next'];
+  const body = sections
+    .slice(0, 2 + Math.floor(rand() * 3))
+    .map((heading) => `## ${heading}\n\n${title} touches more teams than it first appears. ` +
+      'Practitioners report that small, deliberate changes compound quickly, and the data so far backs that up.\n\n' +
+      '- Start with the smallest change that can be measured\n- Write down what you expect to happen\n- Revisit after two weeks')
+    .join('\n\n');
+  return `# ${title}\n\n${body}\n`;
+}
+
+function applyStageOutput(db: MockDb, content: ContentRow, stage: string, rand: () => number, at: number) {
+  const title = content.title || 'Untitled';
+  if (stage === 'research') {
+    content.summary = `Research notes for "${title}": three primary sources, two recent studies, one counterpoint.`;
+  } else if (stage === 'draft') {
+    content.draft_md = articleMarkdown(title, rand);
+    content.word_count = content.draft_md.split(/\s+/).length;
+  } else if (stage === 'verify') {
+    const statuses: Claim['status'][] = ['verified', 'verified', 'disputed', 'unverifiable'];
+    const reliability: Source['reliability'][] = ['high', 'medium', 'low'];
+    for (let i = 0; i < 3; i++) {
+      const claimId = `claim-${content.id}-${i}`;
+      db.claims.push({
+        id: claimId,
+        content_id: content.id,
+        claim_text: `Claim ${i + 1} made in "${title}"`,
+        context: null,
+        status: pick(rand, statuses),
+        confidence: Number((0.5 + rand() * 0.5).toFixed(2)),
+        verification_notes: null,
+      });
+      db.sources.push({
+        id: `source-${content.id}-${i}`,
+        content_id: content.id,
+        claim_id: claimId,
+        url: `https://example.com/research/${content.id}/${i}`,
+        title: `Supporting source ${i + 1}`,
+        author: null,
+        published_date: iso(at - (i + 1) * 86_400_000).slice(0, 10),
+        snippet: 'An excerpt from the source that backs up the claim.',
+        source_type: 'web',
+        reliability: pick(rand, reliability),
+      });
+    }
+  } else if (stage === 'format') {
+    content.final_md = content.draft_md;
+    content.platforms = JSON.stringify({
+      linkedin: `${title}\n\nA short take for LinkedIn readers.`,
+      twitter: `${title} — a thread 🧵`,
+    });
+  } else if (stage === 'edit') {
+    content.excerpt = `A practical look at ${title.toLowerCase()}.`;
+    content.meta_description = content.excerpt;
+    content.meta_keywords = title.toLowerCase().split(/\s+/).slice(0, 4).join(', ');
+    content.slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    content.tags = JSON.stringify(title.toLowerCase().split(/\s+/).filter((w) => w.length > 4).slice(0, 3));
+    content.quality_score = Number((0.6 + rand() * 0.38).toFixed(2));
+    content.reading_time = Math.max(1, Math.round((content.word_count || 0) / 220));
+    content.requires_review = 1;
+  }
+  content.updated_at = iso(at);
+}
+
+// Materialises everything that should have happened by `now`: finished stages, failures and completed scans
+export function advance(db: MockDb, now: number, rand: () => number) {
+  db.jobs.runs = db.jobs.runs.filter((job) => {
+    const run = db.runs.find((r) => r.id === job.runId);
+    const finish = (at: number, error: string | null) => {
+      if (!run) return;
+      run.status = error ? 'error' : 'success';
+      run.error_message = error;
+      run.finished_at = iso(at);
+    };
+    const content = db.content.find((c) => c.id === job.contentId);
+    if (!content) {
+      if (run) run.content_id = null;
+      finish(now, 'Content was deleted while the run was in progress');
+      return false;
+    }
+    const due = Math.min(PIPELINE_STAGES.length, Math.floor((now - job.startedAt) / STAGE_DURATION_MS));
+    while (job.completedStages < due) {
+      const index = job.completedStages;
+      const at = job.startedAt + (index + 1) * STAGE_DURATION_MS;
+      const stage = PIPELINE_STAGES[index].stage;
+      if (job.failAt === stage) {
+        const error = pick(rand, FAILURES);
+        db.traces.push(buildTrace(rand, job.runId, content.id, index, at, error, job.attempt));
+        content.stage = 'failed';
+        content.updated_at = iso(at);
+        finish(at, error);
+        return false;
+      }
+      db.traces.push(buildTrace(rand, job.runId, content.id, index, at, undefined, job.attempt));
+      applyStageOutput(db, content, stage, rand, at);
+      job.completedStages++;
+    }
+    if (due === PIPELINE_STAGES.length) {
+      content.stage = 'review';
+      const topic = db.topics.find((t) => t.id === job.topicId);
+      if (topic) topic.status = 'completed';
+      finish(job.startedAt + PIPELINE_STAGES.length * STAGE_DURATION_MS, null);
+      return false;
+    }
+    content.stage = PIPELINE_STAGES[due].stage;
+    return true;
+  });
+
+  db.jobs.scans = db.jobs.scans.filter((job) => {
+    if (job.completesAt > now) return true;
+    const run = db.scanRuns.find((r) => r.id === job.scanRunId);
+    if (run) {
+      run.status = 'completed';
+      run.completed_at = iso(job.completesAt);
+      run.latency_ms = SCAN_DURATION_MS;
+    }
+    db.ideas.push(...job.ideas);
+    const wt = db.watchTopics.find((w) => w.id === job.watchTopicId);
+    if (wt) wt.last_scanned_at = iso(job.completesAt);
+    return false;
+  });
+}
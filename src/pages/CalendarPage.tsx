@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useSites } from '../hooks/useSites';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { fetchTopics, queryKeys, updateContent, updateSite, updateTopic } from '../lib/api';
+import type { Site } from '../lib/types';
+import { STAGE_COLORS } from '../lib/utils';
+import { loadSiteContent } from '../lib/throughput';
+import { mergeSettings, publishCadence } from '../lib/siteSettings';
+import {
+  calendarItems, calendarDays, cadenceFlags, dayKey, parseDay, shiftAnchor, moveToDay,
+  type CalendarItem, type CalendarView,
+} from '../lib/calendar';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ErrorNotice from '../components/ErrorNotice';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const LEGEND = [
+  { stage: 'research', label: 'Topic' },
+  { stage: 'scheduled', label: 'Scheduled' },
+  { stage: 'published', label: 'Published' },
+];
+
+export default function CalendarPage() {
+  const { selectedSite } = useSites();
+  const navigate = useNavigate();
+  const { showError } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view: CalendarView = searchParams.get('view') === 'week' ? 'week' : 'month';
+  const [today] = useState(() => dayKey(new Date()));
+  const anchorKey = /^\d{4}-\d{2}-\d{2}$/.test(searchParams.get('date') || '') ? searchParams.get('date')! : today;
+  const anchor = parseDay(anchorKey);
+  const siteId = selectedSite?.id;
+  // Where items were dropped, shown straight away while the save and refetch catch up
+  const [moved, setMoved] = useState<Record<string, string>>({});
+  const [dragging, setDragging] = useState<CalendarItem | null>(null);
+
+  const contentQuery = useQuery(
+    siteId ? queryKeys.siteContent(siteId) : null,
+    (signal) => loadSiteContent(siteId!, { signal }),
+  );
+  const topicsQuery = useQuery(
+    siteId ? queryKeys.topics(siteId) : null,
+    (signal) => fetchTopics(siteId!, { signal }),
+  );
+
+  const setParams = (patch: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [name, value] of Object.entries(patch)) {
+      if (value) next.set(name, value);
+      else next.delete(name);
+    }
+    setSearchParams(next);
+  };
+
+  if (!contentQuery.data || !topicsQuery.data || !selectedSite) {
+    const error = contentQuery.error || topicsQuery.error;
+    const retry = () => { contentQuery.refetch(); topicsQuery.refetch(); };
+    return error ? <ErrorNotice error={error} onRetry={retry} /> : <LoadingSpinner />;
+  }
+
+  const items = calendarItems(contentQuery.data, topicsQuery.data).map((item) => {
+    const at = moved[`${item.kind}:${item.id}`];
+    return at ? { ...item, at } : item;
+  });
+  const days = calendarDays(anchor, view);
+  const byDay = new Map<string, CalendarItem[]>();
+  for (const item of items) {
+    const key = dayKey(new Date(item.at));
+    const dayItems = byDay.get(key);
+    if (dayItems) dayItems.push(item);
+    else byDay.set(key, [item]);
+  }
+  const cadence = publishCadence(selectedSite);
+  const flags = cadence ? cadenceFlags(items, days, cadence, today) : null;
+  const title = view === 'month'
+    ? anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `Week of ${parseDay(days[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const reschedule = async (item: CalendarItem, day: string) => {
+    const key = `${item.kind}:${item.id}`;
+    const at = moveToDay(item.at, day);
+    setMoved((prev) => ({ ...prev, [key]: at }));
+    try {
+      if (item.kind === 'content') await updateContent(item.id, { scheduled_publish_at: at });
+      else await updateTopic(selectedSite.id, item.id, { scheduled_at: at });
+    } catch (e: unknown) {
+      setMoved((prev) => Object.fromEntries(Object.entries(prev).filter(([k]) => k !== key)));
+      showError(e, { title: `Couldn't reschedule "${item.title}"` });
+    }
+  };
+
+  const handleDrop = (day: string) => {
+    const item = dragging;
+    setDragging(null);
+    if (!item || day < today || dayKey(new Date(item.at)) === day) return;
+    reschedule(item, day);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <h1 className="text-lg font-semibold text-gray-900 min-w-[10rem]">{title}</h1>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setParams({ date: dayKey(shiftAnchor(anchor, view, -1)) })}
+              className="px-2 py-1 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+              aria-label="Previous"
+            >
+              ‹
+            </button>
+            <button
+              onClick={() => setParams({ date: undefined })}
+              className="px-2.5 py-1 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setParams({ date: dayKey(shiftAnchor(anchor, view, 1)) })}
+              className="px-2 py-1 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+              aria-label="Next"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <CadenceTarget key={selectedSite.id} site={selectedSite} cadence={cadence} />
+          <div className="flex items-center gap-1">
+            {(['month', 'week'] as CalendarView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setParams({ view: v === 'month' ? undefined : v })}
+                className={`px-3 py-1.5 text-sm rounded-lg border transition capitalize ${
+                  view === v ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+        {LEGEND.map(({ stage, label }) => (
+          <span key={stage} className="flex items-center gap-1.5">
+            <span className={`w-2.5 h-2.5 rounded-sm ${STAGE_COLORS[stage].dot}`} />
+            {label}
+          </span>
+        ))}
+        {flags && (
+          <>
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm ring-2 ring-red-400" />
+              Over {flags.dailyCap} a day
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm bg-amber-100" />
+              Gap over {flags.maxGapDays} day{flags.maxGapDays === 1 ? '' : 's'}
+            </span>
+          </>
+        )}
+        <span className="sm:ml-auto text-gray-400">Drag scheduled items and topics to reschedule</span>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-gray-100">
+          {WEEKDAYS.map((d) => (
+            <div key={d} className="px-2 py-2 text-[11px] font-medium text-gray-400 text-center">{d}</div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const date = parseDay(day);
+            const outside = view === 'month' && date.getMonth() !== anchor.getMonth();
+            const overbooked = flags?.overbooked.has(day);
+            const gap = flags?.gaps.has(day);
+            const droppable = !!dragging && day >= today;
+            return (
+              <div
+                key={day}
+                onDragOver={(e) => { if (droppable) e.preventDefault(); }}
+                onDrop={(e) => { e.preventDefault(); handleDrop(day); }}
+                className={`border-b border-r border-gray-100 p-1 sm:p-1.5 ${view === 'week' ? 'min-h-64' : 'min-h-24'} ${
+                  gap ? 'bg-amber-50' : outside ? 'bg-gray-50/60' : ''
+                } ${overbooked ? 'ring-2 ring-inset ring-red-400' : ''} ${droppable ? 'hover:bg-blue-50' : ''}`}
+                title={overbooked ? `More than ${flags!.dailyCap} publishing on this day` : gap ? 'Part of a gap in the publishing cadence' : undefined}
+              >
+                <div className={`text-[11px] mb-1 tabular-nums ${
+                  day === today ? 'inline-flex w-5 h-5 items-center justify-center rounded-full bg-gray-900 text-white' : outside ? 'text-gray-300' : 'text-gray-500'
+                }`}>
+                  {date.getDate()}
+                </div>
+                <div className="space-y-1">
+                  {(byDay.get(day) || []).map((item) => {
+                    const colors = STAGE_COLORS[item.stage] || STAGE_COLORS.failed;
+                    return (
+                      <button
+                        key={`${item.kind}:${item.id}`}
+                        draggable={item.movable}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          e.dataTransfer.setData('text/plain', item.title);
+                          setDragging(item);
+                        }}
+                        onDragEnd={() => setDragging(null)}
+                        onClick={() => navigate(item.kind === 'content' ? `/content/${item.id}` : '/topics')}
+                        className={`w-full text-left px-1.5 py-0.5 rounded text-[11px] truncate block ${colors.bg} ${colors.text} ${
+                          item.movable ? 'cursor-grab active:cursor-grabbing' : ''
+                        }`}
+                        title={`${item.kind === 'topic' ? 'Topic' : item.stage} · ${item.title} · ${new Date(item.at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                      >
+                        {item.kind === 'topic' && <span className="opacity-60">◉ </span>}
+                        {item.title}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Cadence target
+// ============================================================
+
+function CadenceTarget({ site, cadence }: { site: Site; cadence: number | null }) {
+  const { replaceSite } = useSites();
+  const { showError } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(cadence ? String(cadence) : '');
+  const [saving, setSaving] = useState(false);
+  const amount = Number(value);
+
+  const save = async (perWeek: number | null) => {
+    setSaving(true);
+    try {
+      replaceSite(await updateSite(site.id, { settings: mergeSettings(site, { publish_cadence_per_week: perWeek }) }));
+      setEditing(false);
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't save cadence target" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <button onClick={() => setEditing(true)} className="text-xs text-gray-500 hover:text-gray-700 transition">
+        {cadence ? `Target ${cadence} a week · Edit` : 'Set a weekly target'}
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (amount > 0) save(amount); }}
+      className="flex items-center gap-2 text-xs text-gray-500"
+    >
+      <input
+        autoFocus
+        type="number"
+        min="1"
+        step="1"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        aria-label="Articles per week"
+        className="w-16 text-sm border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-gray-900"
+      />
+      a week
+      <button type="submit" disabled={saving || !(amount > 0)} className="text-gray-700 hover:text-gray-900 disabled:opacity-50">
+        {saving ? 'Saving…' : 'Save'}
+      </button>
+      {cadence && (
+        <button type="button" onClick={() => save(null)} disabled={saving} className="text-gray-400 hover:text-gray-600">
+          Remove
+        </button>
+      )}
+      <button type="button" onClick={() => setEditing(false)} className="text-gray-400 hover:text-gray-600">Cancel</button>
+    </form>
+  );
+}
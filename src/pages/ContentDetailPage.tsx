@@ -1,53 +1,58 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
-import { fetchContentDetail, fetchTraces } from '../lib/api';
-import type { Content, Claim, Source, Trace } from '../lib/types';
-import { STAGE_COLORS, CLAIM_STATUS_COLORS, RELIABILITY_COLORS, formatDate, formatDatetime, parseJSON, qualityColor } from '../lib/utils';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { fetchContentDetail, fetchTraces, fetchSiteTraces, fetchUrlChecks, checkPublishedUrls, queryKeys } from '../lib/api';
+import type { Content, Claim, Source, Trace, UrlCheck } from '../lib/types';
+import { CLAIM_STATUS_COLORS, RELIABILITY_COLORS, formatDate, formatDatetime, qualityColor } from '../lib/utils';
 import StageBadge from '../components/StageBadge';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import TraceWaterfall from '../components/TraceWaterfall';
+import ResumeRunButton from '../components/ResumeRunButton';
+import UrlCheckBadge from '../components/UrlCheckBadge';
+import { baselineRange, stageLatencyMedians } from '../lib/traceStats';
+import { isFailing, missingPlatforms, publishedLinks } from '../lib/published';
 
-const TABS = ['Article', 'Claims', 'Sources', 'Traces', 'Platforms', 'Meta'] as const;
+const TABS = ['Article', 'Claims', 'Sources', 'Traces', 'Platforms', 'Published', 'Meta'] as const;
 type Tab = typeof TABS[number];
 
 export default function ContentDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [content, setContent] = useState<Content | null>(null);
-  const [claims, setClaims] = useState<Claim[]>([]);
-  const [sources, setSources] = useState<Source[]>([]);
-  const [traces, setTraces] = useState<Trace[]>([]);
   const [tab, setTab] = useState<Tab>('Article');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!id) return;
-    setLoading(true);
-    fetchContentDetail(id!)
-      .then(async (data) => {
-        setContent(data.content);
-        setClaims(data.claims || []);
-        setSources(data.sources || []);
-        if (data.content.run_id) {
-          try {
-            const t = await fetchTraces(data.content.run_id);
-            setTraces(t);
-          } catch {}
-        }
-      })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [id]);
+  const { data: detail, error, refetch } = useQuery(
+    id ? queryKeys.contentDetail(id) : null,
+    (signal) => fetchContentDetail(id!, { signal }),
+  );
+  const runId = detail?.content.run_id;
+  // Traces are optional extras; a failure here just leaves the tab empty
+  const { data: traces = [] } = useQuery(
+    runId ? queryKeys.traces(runId) : null,
+    (signal) => fetchTraces(runId!, { signal }),
+  );
+  // Site baseline for flagging slow stages; only fetched once the tab is opened
+  const siteId = detail?.content.site_id;
+  const range = baselineRange();
+  const { data: siteTraces } = useQuery(
+    tab === 'Traces' && siteId ? queryKeys.siteTraces(siteId, range) : null,
+    (signal) => fetchSiteTraces(siteId!, range, { signal }),
+  );
+  const { data: urlChecks } = useQuery(
+    tab === 'Published' && siteId ? queryKeys.urlChecks(siteId, id) : null,
+    (signal) => fetchUrlChecks(siteId!, id, { signal }),
+  );
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  if (!detail) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+  const { content } = detail;
+  const claims = detail.claims || [];
+  const sources = detail.sources || [];
   if (!content) return <EmptyState title="Content not found" />;
 
   const markdown = content.final_md || content.draft_md || '';
-  const platforms = parseJSON<Record<string, string>>(content.platforms);
-  const tags = parseJSON<string[]>(content.tags);
+  const missing = missingPlatforms(content);
 
   return (
     <div className="space-y-6">
@@ -71,6 +76,15 @@ export default function ContentDetailPage() {
               ✏ Review Article
             </Link>
           )}
+          {content.stage === 'failed' && content.run_id && (
+            <ResumeRunButton
+              runId={content.run_id}
+              siteId={content.site_id}
+              title={content.title}
+              traces={traces}
+              onResumed={() => navigate(`/runs/${content.run_id}`)}
+            />
+          )}
         </div>
         <h1 className="text-2xl font-bold text-gray-900 mb-2">{content.title || 'Untitled'}</h1>
         {content.excerpt && <p className="text-sm text-gray-500 mb-4">{content.excerpt}</p>}
@@ -113,6 +127,9 @@ export default function ContentDetailPage() {
               {t === 'Traces' && traces.length > 0 && (
                 <span className="ml-1.5 text-xs bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded-full">{traces.length}</span>
               )}
+              {t === 'Published' && missing.length > 0 && (
+                <span className="ml-1.5 text-xs bg-red-50 text-red-600 px-1.5 py-0.5 rounded-full">{missing.length} missing</span>
+              )}
             </button>
           ))}
         </div>
@@ -120,9 +137,10 @@ export default function ContentDetailPage() {
           {tab === 'Article' && <ArticleTab markdown={markdown} />}
           {tab === 'Claims' && <ClaimsTab claims={claims} sources={sources} />}
           {tab === 'Sources' && <SourcesTab sources={sources} />}
-          {tab === 'Traces' && <TracesTab traces={traces} />}
-          {tab === 'Platforms' && <PlatformsTab platforms={platforms} />}
-          {tab === 'Meta' && <MetaTab content={content} tags={tags} />}
+          {tab === 'Traces' && <TracesTab traces={traces} medians={siteTraces && stageLatencyMedians(siteTraces)} />}
+          {tab === 'Platforms' && <PlatformsTab platforms={content.platforms} />}
+          {tab === 'Published' && <PublishedTab content={content} checks={urlChecks} />}
+          {tab === 'Meta' && <MetaTab content={content} />}
         </div>
       </div>
     </div>
@@ -227,16 +245,16 @@ function SourcesTab({ sources }: { sources: Source[] }) {
   );
 }
 
-function TracesTab({ traces }: { traces: Trace[] }) {
+function TracesTab({ traces, medians }: { traces: Trace[]; medians?: Record<string, number> }) {
   if (traces.length === 0) return <EmptyState title="No traces" description="No pipeline traces found for this content" />;
 
-  const sortedTraces = [...traces].sort((a, b) => new Date(a.created_at || '').getTime() - new Date(b.created_at || '').getTime());
   const totalTokens = traces.reduce((s, t) => s + (t.total_tokens || 0), 0);
   const totalLatency = traces.reduce((s, t) => s + (t.latency_ms || 0), 0);
   const totalCost = traces.reduce((s, t) => s + (t.estimated_cost_usd || 0), 0);
+  const failures = traces.filter((t) => t.error_message);
 
   return (
-    <div className="space-y-4">
+    <div className="space-y-6">
       {/* Summary */}
       <div className="grid grid-cols-3 gap-4">
         <div className="bg-gray-50 rounded-lg p-3 text-center">
@@ -253,46 +271,19 @@ function TracesTab({ traces }: { traces: Trace[] }) {
         </div>
       </div>
 
-      {/* Timeline */}
-      <div className="space-y-0">
-        {sortedTraces.map((trace, i) => {
-          const stageColors = STAGE_COLORS[trace.stage] || STAGE_COLORS.failed;
-          const isLast = i === sortedTraces.length - 1;
-          return (
-            <div key={trace.id} className="flex gap-4">
-              {/* Timeline line */}
-              <div className="flex flex-col items-center">
-                <div className={`w-3 h-3 rounded-full ${stageColors.dot} flex-shrink-0 mt-1.5`} />
-                {!isLast && <div className="w-px flex-1 bg-gray-200 my-1" />}
-              </div>
-              {/* Content */}
-              <div className={`flex-1 pb-4 ${isLast ? '' : ''}`}>
-                <div className="flex items-center gap-2 mb-1">
-                  <span className={`text-sm font-medium ${stageColors.text} capitalize`}>{trace.stage}</span>
-                  <span className={`px-1.5 py-0.5 text-xs rounded ${trace.status === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
-                    {trace.status}
-                  </span>
-                </div>
-                <div className="flex flex-wrap gap-4 text-xs text-gray-500">
-                  <span>{trace.model}</span>
-                  <span>{(trace.total_tokens || 0).toLocaleString()} tokens</span>
-                  <span>{((trace.latency_ms || 0) / 1000).toFixed(1)}s</span>
-                  {trace.estimated_cost_usd && <span>${trace.estimated_cost_usd.toFixed(4)}</span>}
-                </div>
-                {trace.error_message && (
-                  <p className="text-xs text-red-500 mt-1 bg-red-50 p-2 rounded">{trace.error_message}</p>
-                )}
-              </div>
-            </div>
-          );
-        })}
-      </div>
+      <TraceWaterfall traces={traces} medians={medians} />
+
+      {failures.map((trace) => (
+        <p key={trace.id} className="text-xs text-red-500 bg-red-50 p-2 rounded">
+          <span className="font-medium capitalize">{trace.stage}:</span> {trace.error_message}
+        </p>
+      ))}
     </div>
   );
 }
 
-function PlatformsTab({ platforms }: { platforms: Record<string, string> | null }) {
-  if (!platforms || Object.keys(platforms).length === 0) {
+function PlatformsTab({ platforms }: { platforms: Record<string, unknown> }) {
+  if (Object.keys(platforms).length === 0) {
     return <EmptyState title="No platform versions" description="Platform-specific content hasn't been generated yet" />;
   }
   return (
@@ -307,7 +298,66 @@ function PlatformsTab({ platforms }: { platforms: Record<string, string> | null
   );
 }
 
-function MetaTab({ content, tags }: { content: Content; tags: string[] | null }) {
+function PublishedTab({ content, checks }: { content: Content; checks: UrlCheck[] | undefined }) {
+  const { showToast, showError } = useToast();
+  const [checking, setChecking] = useState(false);
+  const links = publishedLinks(content, checks || []);
+  if (links.length === 0) {
+    return <EmptyState title="No published URLs" description="Each platform's URL shows up here once the item goes out" />;
+  }
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      const results = await checkPublishedUrls(content.site_id, content.id);
+      const failing = results.filter(isFailing).length;
+      showToast(failing
+        ? { tone: 'error', title: `${failing} of ${results.length} URL${results.length === 1 ? '' : 's'} failing` }
+        : { tone: 'success', title: `${results.length} URL${results.length === 1 ? '' : 's'} OK` });
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't check URLs" });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">
+          {content.published_at ? `Published ${formatDatetime(content.published_at)}` : 'Not marked as published'}
+        </p>
+        <button
+          onClick={handleCheck}
+          disabled={checking || !links.some((l) => l.url)}
+          className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+        >
+          {checking ? 'Checking…' : 'Check now'}
+        </button>
+      </div>
+      <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+        {links.map((link) => (
+          <div key={link.platform} className="px-4 py-3 flex flex-wrap sm:flex-nowrap items-center gap-x-4 gap-y-1">
+            <span className="w-24 text-sm font-medium text-gray-900 capitalize">{link.platform}</span>
+            {link.url ? (
+              <>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 text-sm text-blue-600 hover:underline truncate">
+                  {link.url}
+                </a>
+                <UrlCheckBadge check={link.check} />
+              </>
+            ) : (
+              <span className="flex-1 text-sm text-red-600">Missing: formatted for this platform but no URL was recorded</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MetaTab({ content }: { content: Content }) {
+  const { tags } = content;
   const fields = [
     { label: 'Meta Description', value: content.meta_description },
     { label: 'Meta Keywords', value: content.meta_keywords },
@@ -324,7 +374,7 @@ function MetaTab({ content, tags }: { content: Content; tags: string[] | null })
           <div className="text-sm text-gray-700">{f.value || <span className="text-gray-300">Not set</span>}</div>
         </div>
       ))}
-      {tags && tags.length > 0 && (
+      {tags.length > 0 && (
         <div>
           <div className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-2">Tags</div>
           <div className="flex flex-wrap gap-2">
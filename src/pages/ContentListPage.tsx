@@ -1,50 +1,146 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useSites } from '../hooks/useSites';
-import { fetchContent } from '../lib/api';
-import type { Content } from '../lib/types';
+import { useQuery } from '../hooks/useQuery';
+import { useInfiniteQuery } from '../hooks/useInfiniteQuery';
+import { useContentSla } from '../hooks/useSla';
+import { fetchContentPage, fetchContentStats, fetchVoices, queryKeys } from '../lib/api';
+import type { Content, Voice } from '../lib/types';
 import { STAGES, formatDate } from '../lib/utils';
+import {
+  CONTENT_COLUMNS, parseView, viewToParams, activeFilterCount, loadSavedViews, saveView, deleteSavedView,
+  type ContentColumnId, type ContentFilters, type ContentView, type SavedView,
+} from '../lib/contentViews';
+import type { SlaStatus } from '../lib/sla';
 import StageBadge from '../components/StageBadge';
+import SlaBadge from '../components/SlaBadge';
 import QualityBar from '../components/QualityBar';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import BulkActionBar from '../components/BulkActionBar';
+import LoadMore from '../components/LoadMore';
+import ExportMenu from '../components/ExportMenu';
+
+const PAGE_SIZE = 50;
+
+// Columns that stay visible on narrow screens; the rest only show from md up
+const ALWAYS_SHOWN: ContentColumnId[] = ['title', 'stage', 'created_at'];
+
+function renderCell(item: Content, column: ContentColumnId, sla: SlaStatus | undefined) {
+  switch (column) {
+    case 'title':
+      return (
+        <>
+          <div className="text-sm font-medium text-gray-900 truncate max-w-xs">{item.title || 'Untitled'}</div>
+          {item.slug && <div className="text-xs text-gray-400 truncate max-w-xs">/{item.slug}</div>}
+        </>
+      );
+    case 'stage':
+      return (
+        <div className="flex items-center gap-1.5">
+          <StageBadge stage={item.stage} />
+          <SlaBadge status={sla} />
+        </div>
+      );
+    case 'quality_score':
+      return <QualityBar score={item.quality_score} />;
+    case 'word_count':
+      return <span className="text-sm text-gray-500 tabular-nums">{item.word_count?.toLocaleString() || '—'}</span>;
+    case 'reading_time':
+      return <span className="text-sm text-gray-500 tabular-nums">{item.reading_time ? `${item.reading_time} min` : '—'}</span>;
+    case 'category':
+      return <span className="text-sm text-gray-500">{item.category || '—'}</span>;
+    case 'created_at':
+    case 'scheduled_publish_at':
+    case 'published_at':
+      return <span className="text-sm text-gray-500">{formatDate(item[column])}</span>;
+  }
+}
 
 export default function ContentListPage() {
   const { selectedSite } = useSites();
-  const [content, setContent] = useState<Content[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const [panel, setPanel] = useState<'filters' | 'columns' | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const view = parseView(searchParams);
+  const viewName = searchParams.get('view');
+  const siteId = selectedSite?.id;
+  const pageQuery = { filters: view.filters, sort: view.sort, dir: view.dir };
+  const { data, error, refetch, hasNextPage, fetchNextPage, loadingMore, moreError } = useInfiniteQuery(
+    siteId ? queryKeys.contentPages(siteId, pageQuery) : null,
+    (cursor, signal) => fetchContentPage({ siteId, limit: PAGE_SIZE, cursor, ...pageQuery }, { signal }),
+    (page) => page.next_cursor,
+  );
+  // Facet options; the table works without them
+  const { data: stats } = useQuery(
+    siteId ? queryKeys.contentStats(siteId) : null,
+    (signal) => fetchContentStats(siteId!, { signal }),
+  );
+  // Overdue badges for the loaded rows; the table works without them
+  const sla = useContentSla(selectedSite, data?.pages.flatMap((page) => page.content));
+  const { data: voices = [] } = useQuery(
+    siteId ? queryKeys.voices(siteId) : null,
+    (signal) => fetchVoices(siteId!, { signal }),
+  );
 
-  const stageFilter = searchParams.get('stage') || '';
+  // Any change makes it a new, unnamed view
+  const updateView = (patch: Partial<ContentView>) => setSearchParams(viewToParams({ ...view, ...patch }));
+  const updateFilters = (patch: Partial<ContentFilters>) => updateView({ filters: { ...view.filters, ...patch } });
+  const toggleSort = (column: ContentColumnId) => {
+    if (view.sort === column) {
+      updateView({ dir: view.dir === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateView({ sort: column, dir: column === 'title' || column === 'category' ? 'asc' : 'desc' });
+    }
+  };
+  const applySavedView = (saved: SavedView) => {
+    const params = new URLSearchParams(saved.query);
+    params.set('view', saved.name);
+    setSearchParams(params);
+  };
 
-  useEffect(() => {
-    if (!selectedSite) return;
-    setLoading(true);
-    fetchContent(selectedSite.id, stageFilter || undefined, 100)
-      .then(setContent)
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [selectedSite, stageFilter]);
+  if (!data) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  const content = data.pages.flatMap((page) => page.content);
+  const total = data.pages[0]?.total ?? null;
+  const columns = CONTENT_COLUMNS.filter((c) => view.columns.includes(c.id));
+  const filterCount = activeFilterCount(view.filters);
+  // Selection only counts rows that are loaded in the current view
+  const selected = content.filter((item) => selectedIds.has(item.id));
+  const allSelected = content.length > 0 && selected.length === content.length;
+  const toggleSelected = (id: string) => setSelectedIds((prev) => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(content.map((item) => item.id)));
+  const openItem = (item: Content) => navigate(item.stage === 'review' ? `/content/${item.id}/review` : `/content/${item.id}`);
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between">
-        <h1 className="text-lg font-semibold text-gray-900">Content</h1>
-        <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-baseline gap-2">
+          <h1 className="text-lg font-semibold text-gray-900">Content</h1>
+          {total !== null && <span className="text-xs text-gray-400 tabular-nums">{total.toLocaleString()}</span>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {siteId && (
+            <SavedViewsMenu
+              key={siteId}
+              siteId={siteId}
+              activeName={viewName}
+              currentQuery={viewToParams(view).toString()}
+              onApply={applySavedView}
+              onDeleted={() => setSearchParams(viewToParams(view))}
+            />
+          )}
           <select
-            value={stageFilter}
-            onChange={(e) => {
-              if (e.target.value) {
-                setSearchParams({ stage: e.target.value });
-              } else {
-                setSearchParams({});
-              }
-            }}
+            value={view.filters.stage || ''}
+            onChange={(e) => updateFilters({ stage: e.target.value || undefined })}
             className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900"
           >
             <option value="">All stages</option>
@@ -53,12 +149,66 @@ export default function ContentListPage() {
             ))}
             <option value="failed">failed</option>
           </select>
+          <button
+            onClick={() => setPanel(panel === 'filters' ? null : 'filters')}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition ${
+              panel === 'filters' || filterCount ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            Filters{filterCount ? ` (${filterCount})` : ''}
+          </button>
+          <button
+            onClick={() => setPanel(panel === 'columns' ? null : 'columns')}
+            className={`hidden sm:block px-3 py-1.5 text-sm rounded-lg border transition ${
+              panel === 'columns' ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            Columns
+          </button>
+          {selectedSite && <ExportMenu site={selectedSite} filters={view.filters} sort={view.sort} dir={view.dir} />}
         </div>
       </div>
 
+      {panel === 'filters' && (
+        <FiltersPanel
+          filters={view.filters}
+          categories={Object.keys(stats?.by_category || {}).sort()}
+          tags={Object.keys(stats?.by_tag || {}).sort()}
+          voices={voices}
+          onChange={updateFilters}
+          onClear={() => updateView({ filters: { stage: view.filters.stage } })}
+        />
+      )}
+      {panel === 'columns' && (
+        <div className="bg-white border border-gray-200 rounded-xl p-4 flex flex-wrap gap-x-5 gap-y-2">
+          {CONTENT_COLUMNS.map((c) => (
+            <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={view.columns.includes(c.id)}
+                disabled={c.id === 'title'}
+                onChange={(e) => updateView({
+                  columns: e.target.checked ? [...view.columns, c.id] : view.columns.filter((id) => id !== c.id),
+                })}
+                className="rounded border-gray-300"
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {siteId && selected.length > 0 && (
+        <BulkActionBar siteId={siteId} selected={selected} onClear={() => setSelectedIds(new Set())} />
+      )}
+
       <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
         {content.length === 0 ? (
-          <EmptyState icon="📄" title="No content found" description={stageFilter ? `No content in the "${stageFilter}" stage` : 'No content yet for this site'} />
+          <EmptyState
+            icon="📄"
+            title="No content found"
+            description={filterCount || view.filters.stage ? 'Nothing matches the current filters' : 'No content yet for this site'}
+          />
         ) : (
           <>
             {/* Mobile card layout */}
@@ -66,7 +216,7 @@ export default function ContentListPage() {
               {content.map((item) => (
                 <button
                   key={item.id}
-                  onClick={() => navigate(item.stage === 'review' ? `/content/${item.id}/review` : `/content/${item.id}`)}
+                  onClick={() => openItem(item)}
                   className="w-full px-4 py-3 text-left hover:bg-gray-50 transition"
                 >
                   <div className="flex items-start justify-between gap-2">
@@ -74,7 +224,10 @@ export default function ContentListPage() {
                       <div className="text-sm font-medium text-gray-900 truncate">{item.title || 'Untitled'}</div>
                       {item.slug && <div className="text-xs text-gray-400 truncate">/{item.slug}</div>}
                     </div>
-                    <StageBadge stage={item.stage} />
+                    <div className="flex items-center gap-1.5 flex-shrink-0">
+                      <SlaBadge status={sla.get(item.id)} />
+                      <StageBadge stage={item.stage} />
+                    </div>
                   </div>
                   <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
                     {item.word_count && <span>{item.word_count.toLocaleString()} words</span>}
@@ -88,32 +241,52 @@ export default function ContentListPage() {
             <table className="w-full hidden sm:table">
               <thead>
                 <tr className="border-b border-gray-100 text-left">
-                  <th className="px-3 sm:px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide">Title</th>
-                  <th className="px-3 sm:px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide">Stage</th>
-                  <th className="px-3 sm:px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide hidden md:table-cell">Quality</th>
-                  <th className="px-3 sm:px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide hidden md:table-cell">Words</th>
-                  <th className="px-3 sm:px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wide">Created</th>
+                  <th className="pl-3 sm:pl-6 py-3 w-8">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      aria-label="Select all loaded rows"
+                      className="rounded border-gray-300"
+                    />
+                  </th>
+                  {columns.map((c) => (
+                    <th
+                      key={c.id}
+                      className={`px-3 sm:px-6 py-3 text-xs font-medium uppercase tracking-wide ${ALWAYS_SHOWN.includes(c.id) ? '' : 'hidden md:table-cell'}`}
+                    >
+                      <button
+                        onClick={() => toggleSort(c.id)}
+                        className={`uppercase tracking-wide transition ${view.sort === c.id ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                      >
+                        {c.label}
+                        {view.sort === c.id && <span className="ml-1">{view.dir === 'asc' ? '▲' : '▼'}</span>}
+                      </button>
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-50">
                 {content.map((item) => (
                   <tr
                     key={item.id}
-                    onClick={() => navigate(item.stage === 'review' ? `/content/${item.id}/review` : `/content/${item.id}`)}
-                    className="hover:bg-gray-50 cursor-pointer transition"
+                    onClick={() => openItem(item)}
+                    className={`cursor-pointer transition ${selectedIds.has(item.id) ? 'bg-gray-50' : 'hover:bg-gray-50'}`}
                   >
-                    <td className="px-3 sm:px-6 py-3.5">
-                      <div className="text-sm font-medium text-gray-900 truncate max-w-xs">{item.title || 'Untitled'}</div>
-                      {item.slug && <div className="text-xs text-gray-400 truncate max-w-xs">/{item.slug}</div>}
-                    </td>
-                    <td className="px-3 sm:px-6 py-3.5"><StageBadge stage={item.stage} /></td>
-                    <td className="px-3 sm:px-6 py-3.5 hidden md:table-cell"><QualityBar score={item.quality_score} /></td>
-                    <td className="px-3 sm:px-6 py-3.5 hidden md:table-cell">
-                      <span className="text-sm text-gray-500 tabular-nums">{item.word_count?.toLocaleString() || '—'}</span>
-                    </td>
-                    <td className="px-3 sm:px-6 py-3.5">
-                      <span className="text-sm text-gray-500">{formatDate(item.created_at)}</span>
+                    <td className="pl-3 sm:pl-6 py-3.5" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        aria-label={`Select ${item.title || 'Untitled'}`}
+                        className="rounded border-gray-300"
+                      />
                     </td>
+                    {columns.map((c) => (
+                      <td key={c.id} className={`px-3 sm:px-6 py-3.5 ${ALWAYS_SHOWN.includes(c.id) ? '' : 'hidden md:table-cell'}`}>
+                        {renderCell(item, c.id, sla.get(item.id))}
+                      </td>
+                    ))}
                   </tr>
                 ))}
               </tbody>
@@ -121,6 +294,162 @@ export default function ContentListPage() {
           </>
         )}
       </div>
+
+      {content.length > 0 && (
+        <LoadMore
+          hasMore={hasNextPage}
+          loading={loadingMore}
+          error={moreError}
+          loaded={content.length}
+          total={total}
+          onLoadMore={fetchNextPage}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Filters
+// ============================================================
+
+const QUALITY_STEPS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+interface FiltersPanelProps {
+  filters: ContentFilters;
+  categories: string[];
+  tags: string[];
+  voices: Voice[];
+  onChange: (patch: Partial<ContentFilters>) => void;
+  onClear: () => void;
+}
+
+function FiltersPanel({ filters, categories, tags, voices, onChange, onClear }: FiltersPanelProps) {
+  const selectClass = 'w-full text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900';
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+  const numberOrUndefined = (value: string) => (value ? Number(value) : undefined);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClass}>Min quality</label>
+          <select value={filters.minQuality ?? ''} onChange={(e) => onChange({ minQuality: numberOrUndefined(e.target.value) })} className={selectClass}>
+            <option value="">Any</option>
+            {QUALITY_STEPS.map((q) => <option key={q} value={q}>≥ {Math.round(q * 100)}%</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Max quality</label>
+          <select value={filters.maxQuality ?? ''} onChange={(e) => onChange({ maxQuality: numberOrUndefined(e.target.value) })} className={selectClass}>
+            <option value="">Any</option>
+            {QUALITY_STEPS.map((q) => <option key={q} value={q}>≤ {Math.round(q * 100)}%</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <select value={filters.category || ''} onChange={(e) => onChange({ category: e.target.value || undefined })} className={selectClass}>
+            <option value="">Any</option>
+            {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Tag</label>
+          <select value={filters.tag || ''} onChange={(e) => onChange({ tag: e.target.value || undefined })} className={selectClass}>
+            <option value="">Any</option>
+            {tags.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Voice</label>
+          <select value={filters.voiceProfileId || ''} onChange={(e) => onChange({ voiceProfileId: e.target.value || undefined })} className={selectClass}>
+            <option value="">Any</option>
+            {voices.map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Scheduled from</label>
+          <input type="date" value={filters.scheduledFrom || ''} onChange={(e) => onChange({ scheduledFrom: e.target.value || undefined })} className={selectClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Scheduled to</label>
+          <input type="date" value={filters.scheduledTo || ''} onChange={(e) => onChange({ scheduledTo: e.target.value || undefined })} className={selectClass} />
+        </div>
+        <div className="flex items-end">
+          <label className="flex items-center gap-2 text-sm text-gray-700 py-1.5">
+            <input
+              type="checkbox"
+              checked={!!filters.requiresReview}
+              onChange={(e) => onChange({ requiresReview: e.target.checked || undefined })}
+              className="rounded border-gray-300"
+            />
+            Needs review
+          </label>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={onClear} className="text-xs text-gray-500 hover:text-gray-700 transition">Clear filters</button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Saved views
+// ============================================================
+
+interface SavedViewsMenuProps {
+  siteId: string;
+  activeName: string | null;
+  currentQuery: string;
+  onApply: (view: SavedView) => void;
+  onDeleted: () => void;
+}
+
+function SavedViewsMenu({ siteId, activeName, currentQuery, onApply, onDeleted }: SavedViewsMenuProps) {
+  const [views, setViews] = useState(() => loadSavedViews(siteId));
+  const active = views.find((v) => v.name === activeName);
+  // The URL can drift from the saved copy if someone edits it by hand
+  const modified = !!active && active.query !== currentQuery;
+
+  const handleSave = () => {
+    const name = prompt('Name this view:', activeName || '')?.trim();
+    if (!name) return;
+    setViews(saveView(siteId, name, currentQuery));
+    onApply({ name, query: currentQuery });
+  };
+
+  const handleDelete = () => {
+    if (!active || !confirm(`Delete the "${active.name}" view?`)) return;
+    setViews(deleteSavedView(siteId, active.name));
+    onDeleted();
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={active?.name || ''}
+        onChange={(e) => {
+          const view = views.find((v) => v.name === e.target.value);
+          if (view) onApply(view);
+        }}
+        className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900 max-w-[160px]"
+      >
+        <option value="">{views.length ? 'Saved views' : 'No saved views'}</option>
+        {views.map((v) => <option key={v.name} value={v.name}>{v.name}{v.name === activeName && modified ? ' *' : ''}</option>)}
+      </select>
+      <button
+        onClick={handleSave}
+        className="px-2.5 py-1.5 text-xs text-gray-500 hover:text-gray-700 transition"
+        title="Save the current filters, sort and columns as a named view"
+      >
+        Save
+      </button>
+      {active && (
+        <button onClick={handleDelete} className="px-1.5 py-1.5 text-xs text-gray-400 hover:text-red-600 transition" title="Delete view">
+          ✕
+        </button>
+      )}
     </div>
   );
 }
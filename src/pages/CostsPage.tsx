@@ -0,0 +1,231 @@
+import { useSites } from '../hooks/useSites';
+import { useRangeParams } from '../hooks/useRangeParams';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../lib/api';
+import { STAGE_COLORS, formatDay } from '../lib/utils';
+import {
+  loadCostData, groupCosts, totalCost, dailySpend, weekOverWeek, articleEconomics, formatMicros,
+  type CostGroup, type WeekComparison,
+} from '../lib/costAnalytics';
+import type { SiteTrace } from '../lib/traceStats';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import RangeToolbar from '../components/RangeToolbar';
+
+const RANGES = [7, 30, 90];
+const DEFAULT_RANGE = 30;
+
+export default function CostsPage() {
+  const { sites } = useSites();
+  const range = useRangeParams(RANGES, DEFAULT_RANGE);
+  const { days, scope, now, today, from } = range;
+  // Always reach back two full weeks so the week-over-week trend has something to compare
+  const loadFrom = range.startOf(Math.max(days, 14));
+  const siteIds = sites.map((s) => s.id);
+
+  const { data, error, refetch } = useQuery(
+    siteIds.length ? queryKeys.costs(siteIds, loadFrom) : null,
+    (signal) => loadCostData(siteIds, loadFrom, { signal }),
+  );
+
+  if (!data) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+
+  const siteName = (id: string) => sites.find((s) => s.id === id)?.name || id;
+  const inScope = data.traces.filter((t) => !scope || t.site_id === scope);
+  const traces = inScope.filter((t) => (t.created_at || '').slice(0, 10) >= from);
+  const total = totalCost(traces);
+  const week = weekOverWeek(inScope, () => 'total', now).total;
+  const economics = articleEconomics(traces, data.published);
+  const series = dailySpend(traces, from, today);
+
+  const breakdowns: { title: string; keyOf: (t: SiteTrace) => string; label?: (key: string) => string }[] = [
+    { title: 'By model', keyOf: (t) => `${t.provider}/${t.model}` },
+    { title: 'By provider', keyOf: (t) => t.provider },
+    { title: 'By stage', keyOf: (t) => t.stage },
+    { title: 'By site', keyOf: (t) => t.site_id, label: siteName },
+  ];
+  const groups = breakdowns.map((b) => groupCosts(traces, b.keyOf));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold text-gray-900">Costs</h1>
+        <RangeToolbar range={range} sites={sites} />
+      </div>
+
+      {traces.length === 0 ? (
+        <EmptyState icon="$" title="No model calls in this period" description="Spend shows up here once pipelines have run" />
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <StatCard
+              label={`Spend, last ${days} days`}
+              value={formatMicros(total.costMicros)}
+              detail={`${total.calls.toLocaleString()} calls · ${(total.inputTokens + total.outputTokens).toLocaleString()} tokens`}
+            />
+            <StatCard
+              label="This week"
+              value={formatMicros(week?.current.costMicros ?? 0)}
+              detail={<TrendText comparison={week} suffix=" vs last week" />}
+            />
+            <StatCard
+              label="Per published article"
+              value={economics.perArticleMicros !== null ? formatMicros(economics.perArticleMicros) : '—'}
+              detail={`${economics.articles} article${economics.articles === 1 ? '' : 's'} · ${formatMicros(economics.costMicros)}`}
+            />
+            <StatCard
+              label="Per 1k words"
+              value={economics.per1kWordsMicros !== null ? formatMicros(economics.per1kWordsMicros, 4) : '—'}
+              detail={`${economics.words.toLocaleString()} published words`}
+            />
+          </div>
+
+          <SpendChart series={series} />
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            {breakdowns.map((b, i) => (
+              <BreakdownTable
+                key={b.title}
+                title={b.title}
+                groups={groups[i]}
+                total={total.costMicros}
+                trends={weekOverWeek(inScope, b.keyOf, now)}
+                label={b.label}
+                stageColors={b.title === 'By stage'}
+              />
+            ))}
+          </div>
+
+          {/* Every breakdown is summed from the same traces, so each must land on the total */}
+          <div className="text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1 tabular-nums">
+            <span>{traces.length.toLocaleString()} traces · {formatMicros(total.costMicros, 6)}</span>
+            {breakdowns.map((b, i) => {
+              const sum = groups[i].reduce((acc, g) => acc + g.costMicros, 0);
+              return (
+                <span key={b.title} className={sum === total.costMicros ? 'text-green-600' : 'text-red-600'}>
+                  {sum === total.costMicros ? '✓' : '✕'} {b.title.toLowerCase()} {formatMicros(sum, 6)}
+                </span>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Summary card
+// ============================================================
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: React.ReactNode }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4">
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-xl font-semibold text-gray-900 tabular-nums mt-1">{value}</div>
+      <div className="text-xs text-gray-500 mt-1 truncate">{detail}</div>
+    </div>
+  );
+}
+
+function TrendText({ comparison, suffix = '' }: { comparison: WeekComparison | undefined; suffix?: string }) {
+  if (!comparison || comparison.change === null) return <span className="text-gray-400">new{suffix}</span>;
+  const pct = Math.round(comparison.change * 100);
+  // Spending more is the thing to notice
+  const color = pct > 0 ? 'text-red-600' : pct < 0 ? 'text-green-600' : 'text-gray-500';
+  return <span className={color}>{pct > 0 ? '▲' : pct < 0 ? '▼' : ''}{Math.abs(pct)}%{suffix}</span>;
+}
+
+// ============================================================
+// Daily spend chart
+// ============================================================
+
+function SpendChart({ series }: { series: { date: string; costMicros: number }[] }) {
+  const peak = Math.max(...series.map((d) => d.costMicros), 1);
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-sm font-medium text-gray-900">Daily spend</h2>
+        <span className="text-xs text-gray-400 tabular-nums">peak {formatMicros(peak)}</span>
+      </div>
+      <div className="flex items-end gap-px h-32">
+        {series.map((d) => (
+          <div key={d.date} className="flex-1 h-full flex items-end group" title={`${formatDay(d.date)} · ${formatMicros(d.costMicros, 4)}`}>
+            <span
+              className="w-full bg-gray-800 group-hover:bg-gray-600 rounded-t-sm transition"
+              style={{ height: `${(d.costMicros / peak) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-1.5 text-[10px] text-gray-400">
+        <span>{formatDay(series[0]?.date)}</span>
+        <span>{formatDay(series[series.length - 1]?.date)}</span>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Breakdown table
+// ============================================================
+
+interface BreakdownProps {
+  title: string;
+  groups: CostGroup[];
+  total: number;
+  trends: Record<string, WeekComparison>;
+  label?: (key: string) => string;
+  stageColors?: boolean;
+}
+
+function BreakdownTable({ title, groups, total, trends, label, stageColors }: BreakdownProps) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <h2 className="px-4 sm:px-6 py-3 border-b border-gray-100 text-sm font-medium text-gray-900">{title}</h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-100">
+              <th className="px-4 sm:px-6 py-2 font-medium" />
+              <th className="py-2 font-medium text-right">Calls</th>
+              <th className="py-2 font-medium text-right">Tokens</th>
+              <th className="py-2 font-medium text-right">Cost</th>
+              <th className="py-2 font-medium text-right">Share</th>
+              <th className="px-4 sm:px-6 py-2 font-medium text-right">WoW</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {groups.map((g) => {
+              const share = total ? g.costMicros / total : 0;
+              const colors = stageColors ? STAGE_COLORS[g.key] || STAGE_COLORS.failed : null;
+              return (
+                <tr key={g.key}>
+                  <td className={`px-4 sm:px-6 py-2 font-medium truncate max-w-[200px] ${colors ? `capitalize ${colors.text}` : 'text-gray-700'}`} title={g.key}>
+                    {label ? label(g.key) : g.key}
+                  </td>
+                  <td className="py-2 text-right text-gray-500 tabular-nums">{g.calls.toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-500 tabular-nums">{(g.inputTokens + g.outputTokens).toLocaleString()}</td>
+                  <td className="py-2 text-right text-gray-700 tabular-nums">{formatMicros(g.costMicros, 4)}</td>
+                  <td className="py-2 text-right tabular-nums">
+                    <span className="inline-flex items-center gap-1.5 justify-end">
+                      <span className="w-12 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                        <span className={`block h-full ${colors ? colors.dot : 'bg-gray-800'}`} style={{ width: `${share * 100}%` }} />
+                      </span>
+                      <span className="text-gray-600 w-10">{(share * 100).toFixed(1)}%</span>
+                    </span>
+                  </td>
+                  <td className="px-4 sm:px-6 py-2 text-right tabular-nums whitespace-nowrap">
+                    <TrendText comparison={trends[g.key]} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
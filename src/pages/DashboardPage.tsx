@@ -1,45 +1,45 @@
-import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSites } from '../hooks/useSites';
-import { fetchContent } from '../lib/api';
-import type { Content } from '../lib/types';
+import { useQuery } from '../hooks/useQuery';
+import { useContentSla } from '../hooks/useSla';
+import { fetchContent, fetchContentStats, queryKeys } from '../lib/api';
 import { STAGES, STAGE_COLORS, formatDate } from '../lib/utils';
 import StageBadge from '../components/StageBadge';
+import SlaBadge from '../components/SlaBadge';
 import QualityBar from '../components/QualityBar';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import BudgetBurnDown from '../components/BudgetBurnDown';
+import FlowAnalytics from '../components/FlowAnalytics';
+import StageAging from '../components/StageAging';
 
 export default function DashboardPage() {
   const { selectedSite } = useSites();
-  const [content, setContent] = useState<Content[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const siteId = selectedSite?.id;
+  const statsQuery = useQuery(
+    siteId ? queryKeys.contentStats(siteId) : null,
+    (signal) => fetchContentStats(siteId!, { signal }),
+  );
+  const recentQuery = useQuery(
+    siteId ? queryKeys.contentList(siteId, undefined, 10) : null,
+    (signal) => fetchContent(siteId, undefined, 10, { signal }),
+  );
+  const sla = useContentSla(selectedSite, recentQuery.data);
+  const stats = statsQuery.data;
+  const recentContent = recentQuery.data;
 
-  useEffect(() => {
-    if (!selectedSite) return;
-    setLoading(true);
-    fetchContent(selectedSite.id, undefined, 100)
-      .then(setContent)
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [selectedSite]);
-
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
-
-  const stageCounts = STAGES.reduce((acc, stage) => {
-    acc[stage] = content.filter((c) => c.stage === stage).length;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const recentContent = [...content]
-    .sort((a, b) => new Date(b.created_at || '').getTime() - new Date(a.created_at || '').getTime())
-    .slice(0, 10);
+  if (!stats || !recentContent) {
+    const error = statsQuery.error || recentQuery.error;
+    const retry = () => { statsQuery.refetch(); recentQuery.refetch(); };
+    return error ? <ErrorNotice error={error} onRetry={retry} /> : <LoadingSpinner />;
+  }
 
-  const totalContent = content.length;
-  const avgQuality = content.filter((c) => c.quality_score !== null).reduce((sum, c, _, arr) => sum + (c.quality_score || 0) / arr.length, 0);
-  const publishedCount = content.filter((c) => c.stage === 'published').length;
+  const stageCounts = stats.by_stage;
+  const totalContent = stats.total;
+  const avgQuality = stats.avg_quality;
+  const publishedCount = stageCounts.published || 0;
 
   return (
     <div className="space-y-8">
@@ -58,6 +58,12 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {/* Keyed so the budget form resets when switching sites */}
+      {selectedSite && <BudgetBurnDown key={selectedSite.id} site={selectedSite} />}
+
+      {selectedSite && <FlowAnalytics site={selectedSite} />}
+      {selectedSite && <StageAging key={selectedSite.id} site={selectedSite} />}
+
       {/* Pipeline visualization */}
       <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
         <h2 className="text-sm font-medium text-gray-900 mb-4">Pipeline Stages</h2>
@@ -104,6 +110,7 @@ export default function DashboardPage() {
                   <div className="text-sm font-medium text-gray-900 truncate">{item.title || 'Untitled'}</div>
                   <div className="text-xs text-gray-400 mt-0.5">{formatDate(item.created_at)}</div>
                 </div>
+                <SlaBadge status={sla.get(item.id)} />
                 <StageBadge stage={item.stage} />
                 <QualityBar score={item.quality_score} />
                 {item.word_count && (
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSites } from '../hooks/useSites';
+import { useRangeParams } from '../hooks/useRangeParams';
+import { useQuery } from '../hooks/useQuery';
+import { useBulkAction } from '../hooks/useBulkAction';
+import { queryKeys, resumePipeline, runPipeline } from '../lib/api';
+import type { PipelineRun } from '../lib/types';
+import { DAY_MS, STAGE_COLORS, RUN_STATUS_COLORS, failedStage, formatDatetime } from '../lib/utils';
+import { loadFailures, clusterFailures, dailyCounts, isRetryable, type FailureCluster } from '../lib/failures';
+import type { SiteTrace } from '../lib/traceStats';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import Dialog from '../components/Dialog';
+import BulkProgress from '../components/BulkProgress';
+import RangeToolbar from '../components/RangeToolbar';
+
+const RANGES = [7, 30, 90];
+const DEFAULT_RANGE = 30;
+
+export default function FailuresPage() {
+  const { sites } = useSites();
+  const range = useRangeParams(RANGES, DEFAULT_RANGE);
+  const { scope, today, from } = range;
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<FailureCluster | null>(null);
+  const bulk = useBulkAction();
+
+  const siteIds = sites.map((s) => s.id);
+
+  const { data, error, refetch } = useQuery(
+    siteIds.length ? queryKeys.failures(siteIds, from) : null,
+    (signal) => loadFailures(siteIds, from, { signal }),
+  );
+
+  if (!data) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+
+  const siteName = (id: string) => sites.find((s) => s.id === id)?.name || id;
+  const traces = data.traces.filter((t) => !scope || t.site_id === scope);
+  const clusters = clusterFailures(traces);
+  const retryableRuns = (cluster: FailureCluster) => cluster.runIds.map((id) => data.runs[id]).filter(isRetryable);
+  const stillFailing = new Set(traces.map((t) => t.run_id).filter((id) => isRetryable(data.runs[id]))).size;
+
+  // Runs with content pick up again at the stage that last failed; runs that never got that far start over
+  const retryRun = (run: PipelineRun) => {
+    if (run.content_id) {
+      const stage = failedStage(data.traces.filter((t) => t.run_id === run.id));
+      if (!stage) throw new Error('No failed stage to resume from');
+      return resumePipeline(run.id, stage, run.site_id);
+    }
+    if (!run.topic_id) throw new Error('No source topic to re-run from');
+    return runPipeline(run.topic_id, run.site_id);
+  };
+
+  const handleRetry = (cluster: FailureCluster) => {
+    const runs = retryableRuns(cluster);
+    const byId = new Map(runs.map((r) => [r.id, r]));
+    setConfirming(null);
+    bulk.run(
+      `Retry ${cluster.stage} failures`,
+      runs.map((r) => ({ id: r.id, label: r.title || r.id })),
+      async (id) => retryRun(byId.get(id)!),
+    );
+  };
+
+  const handleDone = () => {
+    bulk.reset();
+    refetch();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold text-gray-900">Failures</h1>
+        <RangeToolbar range={range} sites={sites} />
+      </div>
+
+      {clusters.length === 0 ? (
+        <EmptyState icon="✓" title="No failed calls in this period" />
+      ) : (
+        <>
+          {/* Overview */}
+          <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+            <div className="flex flex-wrap gap-x-8 gap-y-2 mb-4">
+              {[
+                { label: 'Failed calls', value: traces.length },
+                { label: 'Distinct errors', value: clusters.length },
+                { label: 'Runs still failing', value: stillFailing },
+              ].map((stat) => (
+                <div key={stat.label}>
+                  <div className="text-2xl font-semibold text-gray-900 tabular-nums">{stat.value}</div>
+                  <div className="text-xs text-gray-500 mt-0.5">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+            <Frequency counts={dailyCounts(traces, from, today)} from={from} className="h-16" />
+          </div>
+
+          <div className="space-y-3">
+            {clusters.map((cluster) => (
+              <ClusterCard
+                key={cluster.key}
+                cluster={cluster}
+                counts={dailyCounts(cluster.traces, from, today)}
+                from={from}
+                runs={data.runs}
+                retryable={retryableRuns(cluster).length}
+                siteName={siteName}
+                open={expanded === cluster.key}
+                onToggle={() => setExpanded(expanded === cluster.key ? null : cluster.key)}
+                onRetry={() => setConfirming(cluster)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {confirming && (
+        <Dialog
+          title="Retry failed runs"
+          confirmLabel={`Retry ${retryableRuns(confirming).length} runs`}
+          onCancel={() => setConfirming(null)}
+          onConfirm={() => handleRetry(confirming)}
+        >
+          <p className="text-sm text-gray-500">
+            Runs with content resume from the stage that last failed, keeping earlier output.
+            Runs that failed before producing content start fresh from their topic.
+          </p>
+        </Dialog>
+      )}
+
+      {bulk.title && (
+        <BulkProgress
+          title={bulk.title}
+          items={bulk.items}
+          running={bulk.running}
+          onRetryFailed={bulk.retryFailed}
+          onDone={handleDone}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Frequency bars
+// ============================================================
+
+function Frequency({ counts, from, className }: { counts: number[]; from: string; className: string }) {
+  const peak = Math.max(...counts, 1);
+  return (
+    <div className={`flex items-end gap-px ${className}`}>
+      {counts.map((count, i) => (
+        <span
+          key={i}
+          className={`flex-1 rounded-t-sm ${count ? 'bg-red-400' : 'bg-gray-100'}`}
+          style={{ height: count ? `${(count / peak) * 100}%` : '2px' }}
+          title={`${new Date(Date.parse(from) + i * DAY_MS).toISOString().slice(0, 10)} · ${count} failed`}
+        />
+      ))}
+    </div>
+  );
+}
+
+// ============================================================
+// Cluster card
+// ============================================================
+
+interface ClusterCardProps {
+  cluster: FailureCluster;
+  counts: number[];
+  from: string;
+  runs: Record<string, PipelineRun>;
+  retryable: number;
+  siteName: (id: string) => string;
+  open: boolean;
+  onToggle: () => void;
+  onRetry: () => void;
+}
+
+function ClusterCard({ cluster, counts, from, runs, retryable, siteName, open, onToggle, onRetry }: ClusterCardProps) {
+  const colors = STAGE_COLORS[cluster.stage] || STAGE_COLORS.failed;
+  const byRun = new Map<string, SiteTrace[]>();
+  for (const t of cluster.traces) {
+    const runFailures = byRun.get(t.run_id);
+    if (runFailures) runFailures.push(t);
+    else byRun.set(t.run_id, [t]);
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="p-4 sm:p-5 flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
+        <button onClick={onToggle} className="flex-1 min-w-0 text-left">
+          <p className="text-sm font-mono text-gray-900 break-words">{cluster.signature}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500">
+            <span className={`px-2 py-0.5 rounded-md font-medium capitalize ${colors.bg} ${colors.text}`}>{cluster.stage}</span>
+            <span className="font-mono">{cluster.provider}/{cluster.model}</span>
+            <span>·</span>
+            <span>{cluster.runIds.length} run{cluster.runIds.length === 1 ? '' : 's'}</span>
+            <span>·</span>
+            <span>{cluster.siteIds.map(siteName).join(', ')}</span>
+            <span>·</span>
+            <span>last {formatDatetime(cluster.lastSeen)}</span>
+          </div>
+        </button>
+        <div className="flex items-center gap-4 flex-shrink-0">
+          <Frequency counts={counts} from={from} className="w-32 h-8" />
+          <span className="text-lg font-semibold text-gray-900 tabular-nums w-10 text-right">{cluster.traces.length}×</span>
+          {retryable > 0 && (
+            <button
+              onClick={onRetry}
+              className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition whitespace-nowrap"
+            >
+              ↻ Retry {retryable}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {open && (
+        <div className="border-t border-gray-100">
+          <p className="px-4 sm:px-5 py-2 text-xs text-red-600 bg-red-50/50 break-words">{cluster.traces[0].error_message}</p>
+          <ul className="divide-y divide-gray-50">
+            {[...byRun].map(([runId, failures]) => {
+              const run = runs[runId];
+              const statusColors = run ? RUN_STATUS_COLORS[run.status] || RUN_STATUS_COLORS.running : null;
+              return (
+                <li key={runId} className="px-4 sm:px-5 py-2.5 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                  <div className="flex-1 min-w-0">
+                    {run?.content_id ? (
+                      <Link to={`/runs/${runId}`} className="text-sm text-gray-900 hover:underline truncate block">{run.title || 'Untitled'}</Link>
+                    ) : (
+                      <span className="text-sm text-gray-700 truncate block">{run?.title || 'Untitled'}</span>
+                    )}
+                    <span className="text-gray-400 font-mono">{runId}</span>
+                    {run && !run.content_id && <span className="text-gray-400 ml-2">· no content</span>}
+                  </div>
+                  <span className="text-gray-500">{siteName(failures[0].site_id)}</span>
+                  {failures.length > 1 && <span className="text-gray-500 tabular-nums">{failures.length}×</span>}
+                  <span className="text-gray-400">{formatDatetime(failures[failures.length - 1].created_at)}</span>
+                  {run && statusColors && (
+                    <span className={`px-2 py-0.5 font-medium rounded-full ${statusColors.bg} ${statusColors.text}`}>
+                      {run.status === 'error' ? 'failing' : run.status === 'success' ? 'recovered' : run.status}
+                    </span>
+                  )}
+                  {run?.content_id && (
+                    <Link to={`/content/${run.content_id}`} className="text-gray-500 hover:text-gray-700">Content →</Link>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useSites } from '../hooks/useSites';
+import { useToast } from '../hooks/useToast';
+import { useQuery } from '../hooks/useQuery';
+import { useFocusParam } from '../hooks/useFocusParam';
+import { useBudget } from '../hooks/useBudget';
 import {
   fetchWatchTopics, createWatchTopic, deleteWatchTopic,
   fetchIdeas, approveIdea, dismissIdea,
   fetchScanRuns, triggerIdeaScan,
-  fetchPillars,
+  fetchPillars, queryKeys,
 } from '../lib/api';
-import type { WatchTopic, Idea, IdeaScanRun, Pillar } from '../lib/types';
-import { IDEA_STATUS_COLORS, SCAN_STATUS_COLORS, formatDatetime, parseJSON } from '../lib/utils';
+import type { WatchTopic, Idea, Pillar } from '../lib/types';
+import { errorMessage } from '../lib/errors';
+import { budgetWarning, estimateScanCost } from '../lib/budget';
+import { IDEA_STATUS_COLORS, SCAN_STATUS_COLORS, formatDatetime } from '../lib/utils';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
 
 type Tab = 'watch-topics' | 'ideas' | 'scan-runs';
 
@@ -25,12 +32,11 @@ function scoreColor(score: number | null): string {
 export default function IdeasPage() {
   const { selectedSite } = useSites();
   const [tab, setTab] = useState<Tab>('ideas');
-  const [pillars, setPillars] = useState<Pillar[]>([]);
-
-  useEffect(() => {
-    if (!selectedSite) return;
-    fetchPillars(selectedSite.id).then(setPillars).catch(() => {});
-  }, [selectedSite]);
+  const siteId = selectedSite?.id;
+  const { data: pillars = [] } = useQuery(
+    siteId ? queryKeys.pillars(siteId) : null,
+    (signal) => fetchPillars(siteId!, { signal }),
+  );
 
   const tabs: { key: Tab; label: string }[] = [
     { key: 'ideas', label: 'Ideas' },
@@ -81,33 +87,33 @@ export default function IdeasPage() {
 // ============================================================
 
 function WatchTopicsTab({ siteId, pillars }: { siteId: string; pillars: Pillar[] }) {
-  const [topics, setTopics] = useState<WatchTopic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { showError } = useToast();
+  const { data: topics, error, refetch, setData: setTopics } = useQuery(
+    queryKeys.watchTopics(siteId, false),
+    (signal) => fetchWatchTopics(siteId, false, { signal }),
+  );
   const [showForm, setShowForm] = useState(false);
   const [scanning, setScanning] = useState<string | null>(null);
   const [scanResult, setScanResult] = useState<string | null>(null);
-
-  const load = () => {
-    setLoading(true);
-    fetchWatchTopics(siteId)
-      .then(setTopics)
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  };
-
-  useEffect(() => { load(); }, [siteId]);
+  const { selectedSite } = useSites();
+  const { status: budget, traces } = useBudget(selectedSite);
+  // Shares the Scan Runs tab's cache; only needed to price a scan against the budget
+  const { data: scanRuns } = useQuery(
+    budget ? queryKeys.scanRuns(siteId) : null,
+    (signal) => fetchScanRuns(siteId, undefined, undefined, { signal }),
+  );
 
   const handleScan = async (wtId: string) => {
+    const estimate = scanRuns && traces ? estimateScanCost(scanRuns, traces) : null;
+    const warning = budgetWarning(budget, estimate, 'idea scan');
+    if (warning && !confirm(warning)) return;
     setScanning(wtId);
     setScanResult(null);
     try {
       const result = await triggerIdeaScan(siteId, wtId);
       setScanResult(`Found ${result.total_ideas_found} ideas, stored ${result.total_ideas_stored}, deduped ${result.total_ideas_deduped}`);
-      load();
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      setScanResult(`Scan failed: ${msg}`);
+      setScanResult(`Scan failed: ${errorMessage(e)}`);
     } finally {
       setScanning(null);
     }
@@ -117,15 +123,13 @@ function WatchTopicsTab({ siteId, pillars }: { siteId: string; pillars: Pillar[]
     if (!confirm(`Deactivate "${wt.name}"?`)) return;
     try {
       await deleteWatchTopic(siteId, wt.id);
-      setTopics(topics.filter((t) => t.id !== wt.id));
+      setTopics((prev = []) => prev.filter((t) => t.id !== wt.id));
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      alert(`Failed: ${msg}`);
+      showError(e, { title: `Couldn't deactivate "${wt.name}"` });
     }
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  if (!topics) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
 
   return (
     <div className="space-y-4">
@@ -144,7 +148,7 @@ function WatchTopicsTab({ siteId, pillars }: { siteId: string; pillars: Pillar[]
           siteId={siteId}
           pillars={pillars}
           onCreated={(wt) => {
-            setTopics([wt, ...topics]);
+            setTopics((prev = []) => [wt, ...prev]);
             setShowForm(false);
           }}
         />
@@ -161,8 +165,7 @@ function WatchTopicsTab({ siteId, pillars }: { siteId: string; pillars: Pillar[]
       ) : (
         <div className="space-y-2">
           {topics.map((wt) => {
-            const keywords = parseJSON<string[]>(wt.keywords) || [];
-            const sourceTypes = parseJSON<string[]>(wt.source_types) || [];
+            const { keywords, source_types: sourceTypes } = wt;
             return (
               <div key={wt.id} className="bg-white border border-gray-200 rounded-xl p-3 sm:p-4">
                 <div className="flex items-start justify-between gap-3 sm:gap-4">
@@ -285,8 +288,8 @@ function NewWatchTopicForm({
       const result = await createWatchTopic(siteId, {
         name: form.name.trim(),
         description: form.description.trim() || undefined,
-        keywords: JSON.stringify(form.keywords),
-        source_types: JSON.stringify(form.source_types),
+        keywords: form.keywords,
+        source_types: form.source_types,
         scan_interval_hours: form.scan_interval_hours,
         max_ideas_per_scan: form.max_ideas_per_scan,
         pillar_id: form.pillar_id || undefined,
@@ -296,9 +299,9 @@ function NewWatchTopicForm({
         site_id: siteId,
         name: form.name.trim(),
         description: form.description.trim() || null,
-        keywords: JSON.stringify(form.keywords),
-        source_types: JSON.stringify(form.source_types),
-        source_config: '{}',
+        keywords: form.keywords,
+        source_types: form.source_types,
+        source_config: {},
         scan_interval_hours: form.scan_interval_hours,
         max_ideas_per_scan: form.max_ideas_per_scan,
         pillar_id: form.pillar_id || null,
@@ -308,8 +311,7 @@ function NewWatchTopicForm({
         updated_at: new Date().toISOString(),
       });
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      setError(msg);
+      setError(errorMessage(e));
     } finally {
       setSubmitting(false);
     }
@@ -461,29 +463,21 @@ function NewWatchTopicForm({
 // ============================================================
 
 function IdeasTab({ siteId }: { siteId: string }) {
-  const [ideas, setIdeas] = useState<Idea[]>([]);
-  const [watchTopics, setWatchTopics] = useState<WatchTopic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { showError } = useToast();
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [wtFilter, setWtFilter] = useState<string>('');
   const [actionPending, setActionPending] = useState<string | null>(null);
 
-  const load = () => {
-    setLoading(true);
-    Promise.all([
-      fetchIdeas(siteId, {
-        status: statusFilter || undefined,
-        watch_topic_id: wtFilter || undefined,
-      }),
-      fetchWatchTopics(siteId),
-    ])
-      .then(([i, wt]) => { setIdeas(i); setWatchTopics(wt); })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  };
-
-  useEffect(() => { load(); }, [siteId, statusFilter, wtFilter]);
+  const filters = { status: statusFilter || undefined, watch_topic_id: wtFilter || undefined };
+  const ideasQuery = useQuery(queryKeys.ideas(siteId, filters), (signal) => fetchIdeas(siteId, filters, { signal }));
+  const watchTopicsQuery = useQuery(
+    queryKeys.watchTopics(siteId, false),
+    (signal) => fetchWatchTopics(siteId, false, { signal }),
+  );
+  const ideas = ideasQuery.data;
+  const watchTopics = watchTopicsQuery.data || [];
+  const focusedId = useFocusParam('idea', !!ideas);
+  const setIdeas = ideasQuery.setData;
 
   const wtName = (id: string | null) => {
     if (!id) return null;
@@ -496,10 +490,9 @@ function IdeasTab({ siteId }: { siteId: string }) {
     setActionPending(idea.id);
     try {
       await approveIdea(siteId, idea.id);
-      setIdeas(ideas.map((i) => i.id === idea.id ? { ...i, status: 'converted' } : i));
+      setIdeas((prev = []) => prev.map((i) => i.id === idea.id ? { ...i, status: 'converted' } : i));
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      alert(`Failed: ${msg}`);
+      showError(e, { title: `Couldn't approve "${idea.title}"` });
     } finally {
       setActionPending(null);
     }
@@ -511,17 +504,17 @@ function IdeasTab({ siteId }: { siteId: string }) {
     setActionPending(idea.id);
     try {
       await dismissIdea(siteId, idea.id, reason || undefined);
-      setIdeas(ideas.map((i) => i.id === idea.id ? { ...i, status: 'dismissed', dismissed_reason: reason || null } : i));
+      setIdeas((prev = []) => prev.map((i) => i.id === idea.id ? { ...i, status: 'dismissed', dismissed_reason: reason || null } : i));
     } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      alert(`Failed: ${msg}`);
+      showError(e, { title: `Couldn't dismiss "${idea.title}"` });
     } finally {
       setActionPending(null);
     }
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  if (!ideas) {
+    return ideasQuery.error ? <ErrorNotice error={ideasQuery.error} onRetry={ideasQuery.refetch} /> : <LoadingSpinner />;
+  }
 
   return (
     <div className="space-y-4">
@@ -557,10 +550,14 @@ function IdeasTab({ siteId }: { siteId: string }) {
         <div className="space-y-2">
           {ideas.map((idea) => {
             const statusColors = IDEA_STATUS_COLORS[idea.status] || IDEA_STATUS_COLORS.proposed;
-            const sourceUrls = parseJSON<string[]>(idea.source_urls) || [];
+            const sourceUrls = idea.source_urls;
             const isActive = idea.status === 'proposed';
             return (
-              <div key={idea.id} className="bg-white border border-gray-200 rounded-xl p-3 sm:p-4">
+              <div
+                key={idea.id}
+                id={`idea-${idea.id}`}
+                className={`bg-white border rounded-xl p-3 sm:p-4 ${idea.id === focusedId ? 'border-gray-900 ring-2 ring-gray-900/10' : 'border-gray-200'}`}
+              >
                 <div className="flex items-start justify-between gap-3 sm:gap-4">
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1 flex-wrap">
@@ -681,21 +678,14 @@ function IdeasTab({ siteId }: { siteId: string }) {
 // ============================================================
 
 function ScanRunsTab({ siteId }: { siteId: string }) {
-  const [runs, setRuns] = useState<IdeaScanRun[]>([]);
-  const [watchTopics, setWatchTopics] = useState<WatchTopic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    setLoading(true);
-    Promise.all([
-      fetchScanRuns(siteId),
-      fetchWatchTopics(siteId),
-    ])
-      .then(([r, wt]) => { setRuns(r); setWatchTopics(wt); })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [siteId]);
+  const { data: runs, error, refetch } = useQuery(
+    queryKeys.scanRuns(siteId),
+    (signal) => fetchScanRuns(siteId, undefined, undefined, { signal }),
+  );
+  const { data: watchTopics = [] } = useQuery(
+    queryKeys.watchTopics(siteId, false),
+    (signal) => fetchWatchTopics(siteId, false, { signal }),
+  );
 
   const wtName = (id: string | null) => {
     if (!id) return '—';
@@ -703,8 +693,7 @@ function ScanRunsTab({ siteId }: { siteId: string }) {
     return wt?.name || id;
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  if (!runs) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
 
   if (runs.length === 0) {
     return <EmptyState icon="📡" title="No scan runs yet" description="Trigger a scan from the Watch Topics tab" />;
@@ -714,7 +703,7 @@ function ScanRunsTab({ siteId }: { siteId: string }) {
     <div className="space-y-2">
       {runs.map((run) => {
         const statusColors = SCAN_STATUS_COLORS[run.status] || SCAN_STATUS_COLORS.completed;
-        const sourceTypes = parseJSON<string[]>(run.source_types_used) || [];
+        const sourceTypes = run.source_types_used;
         return (
           <div key={run.id} className="bg-white border border-gray-200 rounded-xl p-4">
             <div className="flex items-start justify-between gap-4">
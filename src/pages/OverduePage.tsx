@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSites } from '../hooks/useSites';
+import { useToast } from '../hooks/useToast';
+import { useSla } from '../hooks/useSla';
+import { updateSite } from '../lib/api';
+import type { Site } from '../lib/types';
+import { WORK_STAGES, formatDatetime } from '../lib/utils';
+import { mergeSettings, type SlaRule } from '../lib/siteSettings';
+import { describeRule, formatOverdue, type SlaStatus } from '../lib/sla';
+import StageBadge from '../components/StageBadge';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+
+// How many on-track items to list under the overdue ones
+const UPCOMING_LIMIT = 10;
+
+export default function OverduePage() {
+  const { selectedSite } = useSites();
+  const { rules, statuses, error, refetch } = useSla(selectedSite);
+  const [editing, setEditing] = useState(false);
+
+  if (!statuses || !selectedSite) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+
+  const overdue = statuses.filter((s) => s.breached);
+  const upcoming = statuses
+    .filter((s) => !s.breached)
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(0, UPCOMING_LIMIT);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-baseline gap-2">
+          <h1 className="text-lg font-semibold text-gray-900">Overdue</h1>
+          {overdue.length > 0 && <span className="text-xs text-gray-400 tabular-nums">{overdue.length}</span>}
+        </div>
+        {!editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+          >
+            SLA rules
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <SlaRulesForm key={selectedSite.id} site={selectedSite} rules={rules} onDone={() => setEditing(false)} />
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {rules.length === 0 ? (
+            <span className="text-xs text-gray-400">No SLA rules for this site</span>
+          ) : rules.map((rule) => (
+            <span key={describeRule(rule)} className="px-2.5 py-1 text-xs text-gray-600 bg-white border border-gray-200 rounded-full capitalize">
+              {describeRule(rule)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {overdue.length === 0 ? (
+        <EmptyState icon="✓" title="Nothing is overdue" description={rules.length ? 'Every item is inside its SLA' : undefined} />
+      ) : (
+        <StatusList statuses={overdue} />
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium text-gray-900">Due next</h2>
+          <StatusList statuses={upcoming} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Queue
+// ============================================================
+
+function StatusList({ statuses }: { statuses: SlaStatus[] }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl divide-y divide-gray-50">
+      {statuses.map((status) => {
+        const { content } = status;
+        return (
+          <Link
+            key={content.id}
+            to={content.stage === 'review' ? `/content/${content.id}/review` : `/content/${content.id}`}
+            className="px-4 sm:px-6 py-3.5 flex flex-wrap sm:flex-nowrap items-center gap-x-4 gap-y-1 hover:bg-gray-50 transition"
+          >
+            <div className="flex-1 min-w-0 basis-full sm:basis-auto">
+              <div className="text-sm font-medium text-gray-900 truncate">{content.title || 'Untitled'}</div>
+              <div className="text-xs text-gray-400 mt-0.5 capitalize">{describeRule(status.rule)}</div>
+            </div>
+            <StageBadge stage={content.stage} />
+            <span className="text-xs text-gray-400 whitespace-nowrap">due {formatDatetime(new Date(status.dueAt).toISOString())}</span>
+            <span className={`w-24 text-right text-xs font-medium tabular-nums ${status.breached ? 'text-red-600' : 'text-gray-500'}`}>
+              {status.breached ? `${formatOverdue(status.overdueMs)} overdue` : `${formatOverdue(status.overdueMs)} left`}
+            </span>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
+
+// ============================================================
+// Rules form
+// ============================================================
+
+// Stages an item can be held up in; scheduled items are held to their publish time instead
+const LIMITED_STAGES = [...WORK_STAGES, 'review'];
+
+function SlaRulesForm({ site, rules, onDone }: { site: Site; rules: SlaRule[]; onDone: () => void }) {
+  const { replaceSite } = useSites();
+  const { showToast, showError } = useToast();
+  const [hours, setHours] = useState<Record<string, string>>(() => Object.fromEntries(
+    rules.flatMap((r) => (r.type === 'max_age' ? [[r.stage, String(r.hours)]] : [])),
+  ));
+  const scheduleRule = rules.find((r) => r.type === 'publish_by_schedule');
+  const [onSchedule, setOnSchedule] = useState(!!scheduleRule);
+  const [grace, setGrace] = useState(String(scheduleRule?.grace_minutes ?? 60));
+  const [saving, setSaving] = useState(false);
+
+  const limits = LIMITED_STAGES.filter((stage) => hours[stage]?.trim()).map((stage) => ({ stage, hours: Number(hours[stage]) }));
+  const graceMinutes = Number(grace);
+  const valid = limits.every((l) => Number.isFinite(l.hours) && l.hours > 0)
+    && (!onSchedule || (grace.trim() !== '' && Number.isFinite(graceMinutes) && graceMinutes >= 0));
+
+  const save = async (next: SlaRule[] | undefined) => {
+    setSaving(true);
+    try {
+      replaceSite(await updateSite(site.id, { settings: mergeSettings(site, { sla_rules: next }) }));
+      showToast({ tone: 'success', title: next ? 'SLA rules saved' : 'SLA rules reset' });
+      onDone();
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't save SLA rules" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = () => save([
+    ...limits.map((l): SlaRule => ({ type: 'max_age', stage: l.stage, hours: l.hours })),
+    ...(onSchedule ? [{ type: 'publish_by_schedule', grace_minutes: graceMinutes } as const] : []),
+  ]);
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (valid) handleSubmit(); }}
+      className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6 space-y-4"
+    >
+      <div>
+        <h2 className="text-sm font-medium text-gray-900">Time allowed per stage</h2>
+        <p className="text-xs text-gray-500 mt-0.5">Hours an item may spend in a stage before it's overdue. Leave blank for no limit.</p>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        {LIMITED_STAGES.map((stage) => (
+          <label key={stage} className="text-xs text-gray-500">
+            <span className="capitalize">{stage}</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="—"
+              value={hours[stage] || ''}
+              onChange={(e) => setHours({ ...hours, [stage]: e.target.value })}
+              className="mt-1 block w-full text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-gray-900"
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={onSchedule} onChange={(e) => setOnSchedule(e.target.checked)} className="accent-gray-900" />
+        Scheduled content must publish by its scheduled time, allowing
+        <input
+          type="number"
+          min="0"
+          value={grace}
+          onChange={(e) => setGrace(e.target.value)}
+          disabled={!onSchedule}
+          aria-label="Grace period in minutes"
+          className="w-20 text-sm border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-gray-900 disabled:opacity-50"
+        />
+        minutes
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="submit"
+          disabled={!valid || saving}
+          className="px-3 py-1.5 text-sm font-medium bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 transition"
+        >
+          {saving ? 'Saving…' : 'Save rules'}
+        </button>
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => save(undefined)}
+          disabled={saving}
+          className="ml-auto text-xs text-gray-400 hover:text-gray-600 disabled:opacity-50 transition"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useSites } from '../hooks/useSites';
+import { useRangeParams } from '../hooks/useRangeParams';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { fetchSiteTraces, queryKeys, updateSite } from '../lib/api';
+import type { Site } from '../lib/types';
+import { STAGE_COLORS, formatDate } from '../lib/utils';
+import { promptVersions, type PromptVersion } from '../lib/prompts';
+import { loadSiteContent } from '../lib/throughput';
+import { formatMicros } from '../lib/costAnalytics';
+import { mergeSettings, promptLabels } from '../lib/siteSettings';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import RangeToolbar from '../components/RangeToolbar';
+
+const RANGES = [30, 90];
+const DEFAULT_RANGE = 90;
+
+export default function PromptsPage() {
+  const { selectedSite } = useSites();
+  const range = useRangeParams(RANGES, DEFAULT_RANGE);
+  const { from } = range;
+  const siteId = selectedSite?.id;
+
+  const tracesQuery = useQuery(
+    siteId ? queryKeys.siteTraces(siteId, { from }) : null,
+    (signal) => fetchSiteTraces(siteId!, { from }, { signal }),
+  );
+  // Shared with the dashboard and calendar, so opening this page usually costs no content requests
+  const contentQuery = useQuery(
+    siteId ? queryKeys.siteContent(siteId) : null,
+    (signal) => loadSiteContent(siteId!, { signal }),
+  );
+
+  if (!tracesQuery.data || !contentQuery.data || !selectedSite) {
+    const error = tracesQuery.error || contentQuery.error;
+    const retry = () => { tracesQuery.refetch(); contentQuery.refetch(); };
+    return error ? <ErrorNotice error={error} onRetry={retry} /> : <LoadingSpinner />;
+  }
+
+  const versions = promptVersions(tracesQuery.data, contentQuery.data);
+  const stages = [...new Set(versions.map((v) => v.stage))];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">Prompts</h1>
+          <p className="text-sm text-gray-500 mt-0.5">System prompt versions per stage, by the hash recorded on each model call</p>
+        </div>
+        <RangeToolbar range={range} />
+      </div>
+
+      {versions.length === 0 ? (
+        <EmptyState icon="≡" title="No prompt hashes recorded in this period" />
+      ) : (
+        stages.map((stage) => (
+          <StageVersions key={stage} stage={stage} versions={versions.filter((v) => v.stage === stage)} site={selectedSite} />
+        ))
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Stage versions
+// ============================================================
+
+function Change({ value, previous, format, lowerIsBetter = false }: {
+  value: number | null;
+  previous: number | null;
+  format: (n: number) => string;
+  lowerIsBetter?: boolean;
+}) {
+  if (value === null || previous === null) return null;
+  const diff = value - previous;
+  if (Math.abs(diff) < 1e-9) return null;
+  const better = lowerIsBetter ? diff < 0 : diff > 0;
+  return (
+    <div className={`text-[10px] ${better ? 'text-green-600' : 'text-red-600'}`}>
+      {diff > 0 ? '+' : '−'}{format(Math.abs(diff))}
+    </div>
+  );
+}
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+function StageVersions({ stage, versions, site }: { stage: string; versions: PromptVersion[]; site: Site }) {
+  const colors = STAGE_COLORS[stage] || STAGE_COLORS.failed;
+  const labels = promptLabels(site);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="px-4 sm:px-6 py-3 border-b border-gray-100 flex items-center gap-2">
+        <span className={`px-2 py-0.5 text-xs rounded-md font-medium capitalize ${colors.bg} ${colors.text}`}>{stage}</span>
+        <span className="text-xs text-gray-400">{versions.length} version{versions.length === 1 ? '' : 's'}</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="px-4 sm:px-6 py-2 font-medium">Version</th>
+              <th className="px-3 py-2 font-medium">In use</th>
+              <th className="px-3 py-2 font-medium text-right">Calls</th>
+              <th className="px-3 py-2 font-medium text-right">Failure rate</th>
+              <th className="px-3 py-2 font-medium text-right">Avg tokens</th>
+              <th className="px-3 py-2 font-medium text-right">Avg cost</th>
+              <th className="px-4 sm:px-6 py-2 font-medium text-right">Avg quality</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {versions.map((v, i) => {
+              // Each version is judged against the one that came into use before it
+              const prev = i > 0 ? versions[i - 1] : null;
+              return (
+                <tr key={v.hash} className="align-top">
+                  <td className="px-4 sm:px-6 py-2.5">
+                    <PromptLabel site={site} hash={v.hash} label={labels[v.hash]} />
+                  </td>
+                  <td className="px-3 py-2.5 text-xs text-gray-500 whitespace-nowrap">
+                    {formatDate(v.firstSeen)} – {formatDate(v.lastSeen)}
+                  </td>
+                  <td className="px-3 py-2.5 text-right tabular-nums text-gray-700">{v.calls.toLocaleString()}</td>
+                  <td className="px-3 py-2.5 text-right tabular-nums">
+                    <span className={v.failed ? 'text-red-600' : 'text-gray-700'}>{percent(v.failureRate)}</span>
+                    <Change value={v.failureRate} previous={prev?.failureRate ?? null} format={percent} lowerIsBetter />
+                  </td>
+                  <td className="px-3 py-2.5 text-right tabular-nums text-gray-700">
+                    {Math.round(v.avgTokens).toLocaleString()}
+                    <Change value={v.avgTokens} previous={prev?.avgTokens ?? null} format={(n) => Math.round(n).toLocaleString()} lowerIsBetter />
+                  </td>
+                  <td className="px-3 py-2.5 text-right tabular-nums text-gray-700">
+                    {formatMicros(v.avgCostMicros, 4)}
+                    <Change value={v.avgCostMicros} previous={prev?.avgCostMicros ?? null} format={(n) => formatMicros(n, 4)} lowerIsBetter />
+                  </td>
+                  <td className="px-4 sm:px-6 py-2.5 text-right tabular-nums text-gray-700">
+                    {v.avgQuality === null ? <span className="text-gray-300">—</span> : (
+                      <span title={`${v.scored} scored article${v.scored === 1 ? '' : 's'}`}>{percent(v.avgQuality)}</span>
+                    )}
+                    <Change value={v.avgQuality} previous={prev?.avgQuality ?? null} format={percent} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Label editor
+// ============================================================
+
+function PromptLabel({ site, hash, label }: { site: Site; hash: string; label: string | undefined }) {
+  const { replaceSite } = useSites();
+  const { showError } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(label || '');
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    const name = value.trim();
+    if (name === (label || '')) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    try {
+      // Clearing the name drops the label rather than storing an empty one
+      const rest = Object.fromEntries(Object.entries(promptLabels(site)).filter(([key]) => key !== hash));
+      replaceSite(await updateSite(site.id, { settings: mergeSettings(site, { prompt_labels: name ? { ...rest, [hash]: name } : rest }) }));
+      setEditing(false);
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't save label" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={(e) => { e.preventDefault(); save(); }} className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Escape') setEditing(false); }}
+          placeholder="e.g. draft v3"
+          disabled={saving}
+          className="w-36 text-sm border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-gray-900"
+        />
+        <button type="submit" disabled={saving} className="text-xs text-gray-700 hover:text-gray-900 disabled:opacity-50">
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => { setValue(label || ''); setEditing(true); }}
+      className="text-left group"
+      title="Rename this version"
+    >
+      <div className={label ? 'font-medium text-gray-900' : 'text-gray-400 italic'}>{label || 'Unlabelled'}</div>
+      <div className="text-[10px] font-mono text-gray-400 group-hover:text-gray-600">{hash}</div>
+    </button>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useSites } from '../hooks/useSites';
+import { useQuery } from '../hooks/useQuery';
+import { useToast } from '../hooks/useToast';
+import { checkPublishedUrls, fetchUrlChecks, queryKeys } from '../lib/api';
+import { formatDate } from '../lib/utils';
+import { loadSiteContent } from '../lib/throughput';
+import { isFailing, publishedInventory, type PublishedItem } from '../lib/published';
+import UrlCheckBadge from '../components/UrlCheckBadge';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+
+const FILTERS = [
+  { id: 'all', label: 'All', matches: () => true },
+  { id: 'missing', label: 'Missing URLs', matches: (item: PublishedItem) => item.missing.length > 0 },
+  { id: 'failing', label: 'Failing checks', matches: (item: PublishedItem) => item.failing > 0 },
+  { id: 'unchecked', label: 'Not checked', matches: (item: PublishedItem) => item.unchecked > 0 },
+];
+
+export default function PublishedPage() {
+  const { selectedSite } = useSites();
+  const { showToast, showError } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [checking, setChecking] = useState(false);
+  const filter = FILTERS.find((f) => f.id === searchParams.get('filter')) || FILTERS[0];
+  const siteId = selectedSite?.id;
+
+  const contentQuery = useQuery(
+    siteId ? queryKeys.siteContent(siteId) : null,
+    (signal) => loadSiteContent(siteId!, { signal }),
+  );
+  const checksQuery = useQuery(
+    siteId ? queryKeys.urlChecks(siteId) : null,
+    (signal) => fetchUrlChecks(siteId!, undefined, { signal }),
+  );
+
+  if (!contentQuery.data || !checksQuery.data || !siteId) {
+    const error = contentQuery.error || checksQuery.error;
+    const retry = () => { contentQuery.refetch(); checksQuery.refetch(); };
+    return error ? <ErrorNotice error={error} onRetry={retry} /> : <LoadingSpinner />;
+  }
+
+  const inventory = publishedInventory(contentQuery.data, checksQuery.data);
+  const items = inventory.filter(filter.matches);
+
+  const handleCheckAll = async () => {
+    setChecking(true);
+    try {
+      const results = await checkPublishedUrls(siteId);
+      const failing = results.filter(isFailing).length;
+      showToast(failing
+        ? { tone: 'error', title: `${failing} of ${results.length} URLs failing` }
+        : { tone: 'success', title: `All ${results.length} URLs OK` });
+    } catch (e: unknown) {
+      showError(e, { title: "Couldn't check URLs" });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-baseline gap-2">
+          <h1 className="text-lg font-semibold text-gray-900">Published</h1>
+          <span className="text-xs text-gray-400 tabular-nums">{inventory.length}</span>
+        </div>
+        <button
+          onClick={handleCheckAll}
+          disabled={checking || inventory.length === 0}
+          className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+        >
+          {checking ? 'Checking…' : 'Check all URLs'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {FILTERS.map((f) => {
+          const count = inventory.filter(f.matches).length;
+          return (
+            <button
+              key={f.id}
+              onClick={() => setSearchParams(f.id === 'all' ? {} : { filter: f.id })}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition ${
+                filter.id === f.id ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {f.label}
+              <span className="ml-1.5 text-xs opacity-60 tabular-nums">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {items.length === 0 ? (
+        <EmptyState
+          icon="↗"
+          title={inventory.length === 0 ? 'Nothing published yet' : `No items match “${filter.label}”`}
+          description={inventory.length === 0 ? 'Published items and their URLs show up here' : undefined}
+        />
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-xl divide-y divide-gray-50">
+          {items.map((item) => <InventoryRow key={item.content.id} item={item} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Row
+// ============================================================
+
+function InventoryRow({ item }: { item: PublishedItem }) {
+  const { content, links } = item;
+  return (
+    <div className="px-4 sm:px-6 py-3.5 space-y-2">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <Link to={`/content/${content.id}`} className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate hover:underline">
+          {content.title || 'Untitled'}
+        </Link>
+        {item.missing.length > 0 && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-50 text-red-700 whitespace-nowrap">
+            {item.missing.length} missing
+          </span>
+        )}
+        <span className="text-xs text-gray-400 whitespace-nowrap">{formatDate(content.published_at)}</span>
+      </div>
+      <div className="space-y-1">
+        {links.map((link) => (
+          <div key={link.platform} className="flex items-center gap-3 text-xs">
+            <span className="w-20 shrink-0 text-gray-500 capitalize">{link.platform}</span>
+            {link.url ? (
+              <>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 text-blue-600 hover:underline truncate">
+                  {link.url}
+                </a>
+                <UrlCheckBadge check={link.check} />
+              </>
+            ) : (
+              <span className="flex-1 text-red-600">No URL recorded</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -16,9 +16,12 @@ import {
   rejectContent,
 } from '../lib/api';
 import type { Content, Claim, ReviewMessage, Revision } from '../lib/types';
-import { CLAIM_STATUS_COLORS, formatDatetime, parseJSON } from '../lib/utils';
+import { errorMessage, isAbortError } from '../lib/errors';
+import { CLAIM_STATUS_COLORS, formatDatetime } from '../lib/utils';
 import LoadingSpinner from '../components/LoadingSpinner';
 import StageBadge from '../components/StageBadge';
+import ErrorNotice from '../components/ErrorNotice';
+import { useToast } from '../hooks/useToast';
 
 const turndown = new TurndownService({
   headingStyle: 'atx',
@@ -32,13 +35,15 @@ type SidebarTab = typeof SIDEBAR_TABS[number];
 export default function ReviewPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { showError } = useToast();
 
   const [content, setContent] = useState<Content | null>(null);
   const [claims, setClaims] = useState<Claim[]>([]);
   const [messages, setMessages] = useState<ReviewMessage[]>([]);
   const [revisions, setRevisions] = useState<Revision[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [retryCount, setRetryCount] = useState(0);
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>('Chat');
 
   // Editor state
@@ -84,11 +89,14 @@ export default function ReviewPage() {
   // Load data
   useEffect(() => {
     if (!id) return;
+    const controller = new AbortController();
+    const { signal } = controller;
     setLoading(true);
+    setError(null);
     Promise.all([
-      fetchContentDetail(id),
-      fetchReviewMessages(id),
-      fetchRevisions(id),
+      fetchContentDetail(id, { signal }),
+      fetchReviewMessages(id, { signal }),
+      fetchRevisions(id, { signal }),
     ])
       .then(([detail, msgs, revs]) => {
         setContent(detail.content);
@@ -103,9 +111,10 @@ export default function ReviewPage() {
           editor.commands.setContent(html);
         }
       })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [id, editor]);
+      .catch((e) => { if (!isAbortError(e)) setError(e); })
+      .finally(() => { if (!signal.aborted) setLoading(false); });
+    return () => controller.abort();
+  }, [id, editor, retryCount]);
 
   // Scroll chat to bottom
   useEffect(() => {
@@ -141,8 +150,8 @@ export default function ReviewPage() {
 
       // Auto-dismiss after 5s
       setTimeout(() => setSaveMessage(null), 5000);
-    } catch (e: any) {
-      setSaveMessage({ type: 'warning', text: `Save failed: ${e.message}` });
+    } catch (e: unknown) {
+      setSaveMessage({ type: 'warning', text: `Save failed: ${errorMessage(e)}` });
     } finally {
       setSaving(false);
     }
@@ -161,7 +170,7 @@ export default function ReviewPage() {
       content_id: id,
       role: 'human',
       message: msg,
-      actions_taken: '[]',
+      actions_taken: [],
       stage_triggered: null,
       revision_id: null,
       created_at: new Date().toISOString(),
@@ -177,7 +186,7 @@ export default function ReviewPage() {
         content_id: id,
         role: 'agent',
         message: response.message,
-        actions_taken: JSON.stringify(response.actions_taken),
+        actions_taken: response.actions_taken,
         stage_triggered: null,
         revision_id: response.revision?.id || null,
         created_at: new Date().toISOString(),
@@ -196,14 +205,14 @@ export default function ReviewPage() {
         const revs = await fetchRevisions(id);
         setRevisions(revs);
       }
-    } catch (e: any) {
+    } catch (e: unknown) {
       // Add error message
       const errMsg: ReviewMessage = {
         id: 'err-' + Date.now(),
         content_id: id,
         role: 'agent',
-        message: `Error: ${e.message}`,
-        actions_taken: '[]',
+        message: `Error: ${errorMessage(e)}`,
+        actions_taken: [],
         stage_triggered: null,
         revision_id: null,
         created_at: new Date().toISOString(),
@@ -221,8 +230,8 @@ export default function ReviewPage() {
     try {
       await approveContent(id, targetStage);
       navigate('/content');
-    } catch (e: any) {
-      alert(`Approve failed: ${e.message}`);
+    } catch (e: unknown) {
+      showError(e, { title: 'Approve failed', onRetry: () => handleApprove(targetStage) });
     } finally {
       setApproving(false);
     }
@@ -235,15 +244,15 @@ export default function ReviewPage() {
     try {
       await rejectContent(id, rejectStage, rejectFeedback.trim());
       navigate('/content');
-    } catch (e: any) {
-      alert(`Reject failed: ${e.message}`);
+    } catch (e: unknown) {
+      showError(e, { title: 'Reject failed', onRetry: handleReject });
     } finally {
       setRejecting(false);
     }
   };
 
   if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  if (error) return <ErrorNotice error={error} onRetry={() => setRetryCount((c) => c + 1)} />;
   if (!content) return <div className="text-gray-500 text-sm text-center py-8">Content not found</div>;
 
   return (
@@ -515,7 +524,7 @@ function ChatTab({
         )}
         {messages.map((msg) => {
           const isHuman = msg.role === 'human';
-          const actions = parseJSON<Array<{ action: string; details: string }>>(msg.actions_taken) || [];
+          const actions = msg.actions_taken;
           return (
             <div key={msg.id} className={`flex ${isHuman ? 'justify-end' : 'justify-start'}`}>
               <div className={`max-w-[85%] ${isHuman ? 'order-last' : ''}`}>
@@ -720,7 +729,7 @@ function RevisionsTab({ revisions }: { revisions: Revision[] }) {
 // ============================================================
 
 function MetaTab({ content }: { content: Content }) {
-  const platforms = parseJSON<Record<string, any>>(content.platforms);
+  const { platforms } = content;
 
   const fields = [
     { label: 'Meta Description', value: content.meta_description },
@@ -737,7 +746,7 @@ function MetaTab({ content }: { content: Content }) {
         </div>
       ))}
 
-      {platforms && Object.keys(platforms).length > 0 && (
+      {Object.keys(platforms).length > 0 && (
         <div>
           <label className="text-[10px] font-medium text-gray-400 uppercase tracking-wide mb-2 block">Platform Previews</label>
           <div className="space-y-3">
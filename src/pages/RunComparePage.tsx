@@ -0,0 +1,307 @@
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useQuery } from '../hooks/useQuery';
+import { fetchPipelineStatus, fetchRuns, fetchContentMetrics, queryKeys } from '../lib/api';
+import type { Content, ContentMetrics, Trace } from '../lib/types';
+import { STAGE_COLORS, WORK_STAGES, formatDatetime } from '../lib/utils';
+import { stageTotals, formatDuration } from '../lib/traceStats';
+import { diffLines, collapseUnchanged } from '../lib/diff';
+import StageBadge from '../components/StageBadge';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+
+const CLAIM_STATUSES = ['verified', 'disputed', 'unverifiable', 'pending'];
+
+const selectClass = 'text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900 min-w-0 max-w-full';
+
+export default function RunComparePage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const a = searchParams.get('a');
+  const b = searchParams.get('b');
+
+  // Shares the cache with the run view, so arriving from there is instant
+  const sideA = useQuery(a ? queryKeys.pipelineStatus(a) : null, (signal) => fetchPipelineStatus(a!, { signal }));
+  const sideB = useQuery(b ? queryKeys.pipelineStatus(b) : null, (signal) => fetchPipelineStatus(b!, { signal }));
+  const topicId = sideA.data?.content.topic_id;
+  const siteId = sideA.data?.content.site_id;
+  const { data: candidates } = useQuery(
+    topicId && siteId ? queryKeys.runs(siteId, { topic_id: topicId }) : null,
+    (signal) => fetchRuns(siteId!, { topic_id: topicId! }, null, 50, { signal }),
+  );
+  const contentIds = [sideA.data?.content.id, sideB.data?.content.id].filter((id): id is string => !!id);
+  const { data: metrics } = useQuery(
+    contentIds.length === 2 ? queryKeys.contentMetrics(contentIds) : null,
+    (signal) => fetchContentMetrics(contentIds, { signal }),
+  );
+
+  const setRun = (side: 'a' | 'b', runId: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(side, runId);
+    setSearchParams(next, { replace: true });
+  };
+  const swap = () => {
+    if (!a || !b) return;
+    setSearchParams(new URLSearchParams({ a: b, b: a }), { replace: true });
+  };
+
+  if (!a) return <EmptyState icon="⇄" title="Pick a run to compare" description="Open a run and choose Compare to start" />;
+
+  const error = sideA.error || sideB.error;
+  if (!sideA.data || (b && !sideB.data)) {
+    return error ? <ErrorNotice error={error} onRetry={() => { sideA.refetch(); sideB.refetch(); }} /> : <LoadingSpinner />;
+  }
+
+  const runs = (candidates?.runs || []).filter((r) => r.content_id);
+  const runLabel = (id: string) => {
+    const run = runs.find((r) => r.id === id);
+    return run ? `${formatDatetime(run.started_at)} · ${run.status} · ${run.id}` : id;
+  };
+  const picker = (side: 'a' | 'b', value: string | null) => (
+    <select value={value || ''} onChange={(e) => setRun(side, e.target.value)} className={selectClass} aria-label={`Run ${side.toUpperCase()}`}>
+      {!value && <option value="">Choose a run…</option>}
+      {value && !runs.some((r) => r.id === value) && <option value={value}>{value}</option>}
+      {runs.map((r) => <option key={r.id} value={r.id} disabled={r.id === (side === 'a' ? b : a)}>{runLabel(r.id)}</option>)}
+    </select>
+  );
+
+  const left = sideA.data;
+  const right = sideB.data;
+  const sameTopic = !right || right.content.topic_id === left.content.topic_id;
+
+  return (
+    <div className="space-y-4">
+      <button onClick={() => navigate(-1)} className="text-sm text-gray-400 hover:text-gray-600 transition flex items-center gap-1">
+        <span>←</span> Back
+      </button>
+
+      <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6 space-y-4">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">Compare runs</h1>
+          <p className="text-sm text-gray-500 mt-0.5 truncate">{left.content.title || 'Untitled'}</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] items-center gap-2">
+          <div className="flex items-center gap-2 min-w-0"><span className="text-xs font-semibold text-gray-400">A</span>{picker('a', a)}</div>
+          <button
+            onClick={swap}
+            disabled={!b}
+            className="px-2 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition justify-self-center"
+            title="Swap A and B"
+          >
+            ⇄
+          </button>
+          <div className="flex items-center gap-2 min-w-0"><span className="text-xs font-semibold text-gray-400">B</span>{picker('b', b)}</div>
+        </div>
+        {candidates && runs.length < 2 && (
+          <p className="text-xs text-gray-400">This topic has only been run once. Run it again from the Topics page to have something to compare.</p>
+        )}
+      </div>
+
+      {!right ? null : !sameTopic ? (
+        <EmptyState icon="⇄" title="These runs are for different topics" description="Only runs of the same topic can be compared" />
+      ) : (
+        <>
+          <SummaryTable
+            left={left}
+            right={right}
+            metrics={metrics && [metrics.find((m) => m.content_id === left.content.id), metrics.find((m) => m.content_id === right.content.id)]}
+          />
+          <StageTable left={left.traces} right={right.traces} />
+          <TextDiff left={left.content} right={right.content} />
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Summary
+// ============================================================
+
+interface Side {
+  content: Content;
+  traces: Trace[];
+}
+
+function Delta({ a, b, format, lowerIsBetter = false }: { a: number | null; b: number | null; format: (n: number) => string; lowerIsBetter?: boolean }) {
+  if (a === null || b === null) return <span className="text-gray-300">—</span>;
+  const diff = b - a;
+  if (Math.abs(diff) < 1e-9) return <span className="text-gray-400">same</span>;
+  const better = lowerIsBetter ? diff < 0 : diff > 0;
+  const pct = a ? ` (${diff > 0 ? '+' : ''}${Math.round((diff / Math.abs(a)) * 100)}%)` : '';
+  return <span className={better ? 'text-green-600' : 'text-red-600'}>{diff > 0 ? '+' : '−'}{format(Math.abs(diff))}{pct}</span>;
+}
+
+function SummaryTable({ left, right, metrics }: { left: Side; right: Side; metrics?: (ContentMetrics | undefined)[] }) {
+  const sum = (traces: Trace[], pick: (t: Trace) => number | null) => traces.reduce((acc, t) => acc + (pick(t) || 0), 0);
+  const rows: { label: string; a: number | null; b: number | null; format: (n: number) => string; lowerIsBetter?: boolean }[] = [
+    { label: 'Quality', a: left.content.quality_score, b: right.content.quality_score, format: (n) => `${Math.round(n * 100)}%` },
+    { label: 'Words', a: left.content.word_count, b: right.content.word_count, format: (n) => n.toLocaleString() },
+    { label: 'Tokens', a: sum(left.traces, (t) => t.total_tokens), b: sum(right.traces, (t) => t.total_tokens), format: (n) => n.toLocaleString(), lowerIsBetter: true },
+    { label: 'Model time', a: sum(left.traces, (t) => t.latency_ms), b: sum(right.traces, (t) => t.latency_ms), format: formatDuration, lowerIsBetter: true },
+    { label: 'Cost', a: sum(left.traces, (t) => t.estimated_cost_usd), b: sum(right.traces, (t) => t.estimated_cost_usd), format: (n) => `$${n.toFixed(4)}`, lowerIsBetter: true },
+  ];
+  const claims = (m: ContentMetrics | undefined, status: string) => (m ? m.claims_by_status[status] || 0 : null);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 border-b border-gray-100">
+            <th className="px-4 sm:px-6 py-2.5 font-medium" />
+            <th className="py-2.5 font-medium text-right">A</th>
+            <th className="py-2.5 font-medium text-right">B</th>
+            <th className="px-4 sm:px-6 py-2.5 font-medium text-right">B vs A</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50 tabular-nums">
+          <tr>
+            <td className="px-4 sm:px-6 py-2.5 text-gray-500">Stage</td>
+            <td className="py-2.5 text-right"><StageBadge stage={left.content.stage} /></td>
+            <td className="py-2.5 text-right"><StageBadge stage={right.content.stage} /></td>
+            <td />
+          </tr>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td className="px-4 sm:px-6 py-2.5 text-gray-500">{row.label}</td>
+              <td className="py-2.5 text-right text-gray-900">{row.a !== null ? row.format(row.a) : '—'}</td>
+              <td className="py-2.5 text-right text-gray-900">{row.b !== null ? row.format(row.b) : '—'}</td>
+              <td className="px-4 sm:px-6 py-2.5 text-right text-xs"><Delta a={row.a} b={row.b} format={row.format} lowerIsBetter={row.lowerIsBetter} /></td>
+            </tr>
+          ))}
+          {CLAIM_STATUSES.map((status) => {
+            const ca = claims(metrics?.[0], status);
+            const cb = claims(metrics?.[1], status);
+            return (
+              <tr key={status}>
+                <td className="px-4 sm:px-6 py-2.5 text-gray-500 capitalize">{status} claims</td>
+                <td className="py-2.5 text-right text-gray-900">{ca ?? '…'}</td>
+                <td className="py-2.5 text-right text-gray-900">{cb ?? '…'}</td>
+                <td className="px-4 sm:px-6 py-2.5 text-right text-xs">
+                  <Delta a={ca} b={cb} format={String} lowerIsBetter={status !== 'verified'} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================
+// Per-stage breakdown
+// ============================================================
+
+function StageTable({ left, right }: { left: Trace[]; right: Trace[] }) {
+  const a = stageTotals(left);
+  const b = stageTotals(right);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-x-auto">
+      <h2 className="px-4 sm:px-6 py-3 border-b border-gray-100 text-sm font-medium text-gray-900">By stage</h2>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-100">
+            <th className="px-4 sm:px-6 py-2 font-medium">Stage</th>
+            <th className="py-2 font-medium">Model A</th>
+            <th className="py-2 font-medium">Model B</th>
+            <th className="py-2 font-medium text-right">Tokens</th>
+            <th className="py-2 font-medium text-right">Time</th>
+            <th className="px-4 sm:px-6 py-2 font-medium text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-50 tabular-nums">
+          {WORK_STAGES.map((stage) => {
+            const sa = a[stage];
+            const sb = b[stage];
+            if (!sa && !sb) return null;
+            const colors = STAGE_COLORS[stage];
+            const modelChanged = !!sa && !!sb && sa.models.join() !== sb.models.join();
+            return (
+              <tr key={stage}>
+                <td className={`px-4 sm:px-6 py-2.5 font-medium capitalize ${colors.text}`}>{stage}</td>
+                {[sa, sb].map((s, i) => (
+                  <td key={i} className={`py-2.5 pr-3 font-mono ${modelChanged ? 'text-amber-700' : 'text-gray-600'}`}>
+                    {s ? s.models.join(', ') : <span className="font-sans text-gray-300">not run</span>}
+                    {s?.failed ? <span className="ml-1.5 font-sans text-red-600">{s.failed} failed</span> : null}
+                  </td>
+                ))}
+                <td className="py-2.5 text-right whitespace-nowrap">
+                  <Delta a={sa?.tokens ?? null} b={sb?.tokens ?? null} format={(n) => n.toLocaleString()} lowerIsBetter />
+                </td>
+                <td className="py-2.5 text-right whitespace-nowrap">
+                  <Delta a={sa?.latencyMs ?? null} b={sb?.latencyMs ?? null} format={formatDuration} lowerIsBetter />
+                </td>
+                <td className="px-4 sm:px-6 py-2.5 text-right whitespace-nowrap">
+                  <Delta a={sa?.cost ?? null} b={sb?.cost ?? null} format={(n) => `$${n.toFixed(4)}`} lowerIsBetter />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="px-4 sm:px-6 py-2 text-[10px] text-gray-400 border-t border-gray-50">Changes are B relative to A. Models that differ between the runs are highlighted.</p>
+    </div>
+  );
+}
+
+// ============================================================
+// Text diff
+// ============================================================
+
+const DIFF_STYLES = {
+  same: { row: '', sign: ' ', text: 'text-gray-600' },
+  add: { row: 'bg-green-50', sign: '+', text: 'text-green-800' },
+  remove: { row: 'bg-red-50', sign: '−', text: 'text-red-800' },
+};
+
+function TextDiff({ left, right }: { left: Content; right: Content }) {
+  // Runs that stopped before formatting only have a draft
+  const textA = left.final_md ?? left.draft_md;
+  const textB = right.final_md ?? right.draft_md;
+  const usesDraft = left.final_md === null || right.final_md === null;
+  const lines = textA !== null && textB !== null ? diffLines(textA, textB) : [];
+  const added = lines.filter((l) => l.op === 'add').length;
+  const removed = lines.filter((l) => l.op === 'remove').length;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="px-4 sm:px-6 py-3 border-b border-gray-100 flex flex-wrap items-center gap-x-3 gap-y-1">
+        <h2 className="text-sm font-medium text-gray-900">Final text</h2>
+        {lines.length > 0 && (
+          <span className="text-xs tabular-nums">
+            <span className="text-green-600">+{added}</span> <span className="text-red-600">−{removed}</span>
+          </span>
+        )}
+        {usesDraft && <span className="text-xs text-amber-600">comparing the draft where there is no final text</span>}
+        <div className="flex-1" />
+        <Link to={`/content/${left.id}`} className="text-xs text-gray-400 hover:text-gray-600">A →</Link>
+        <Link to={`/content/${right.id}`} className="text-xs text-gray-400 hover:text-gray-600">B →</Link>
+      </div>
+      {textA === null || textB === null ? (
+        <p className="px-6 py-8 text-sm text-gray-400 text-center">{textA === null ? 'Run A' : 'Run B'} produced no text to compare</p>
+      ) : added + removed === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-400 text-center">The texts are identical</p>
+      ) : (
+        <div className="overflow-x-auto text-xs font-mono leading-5">
+          {collapseUnchanged(lines).map((hunk, i) => hunk.kind === 'skip' ? (
+            <div key={i} className="px-4 py-1 bg-gray-50 text-gray-400 font-sans">⋯ {hunk.count} unchanged line{hunk.count === 1 ? '' : 's'}</div>
+          ) : (
+            hunk.lines.map((line) => {
+              const style = DIFF_STYLES[line.op];
+              return (
+                <div key={`${line.oldLine}-${line.newLine}`} className={`flex ${style.row}`}>
+                  <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-300 select-none">{line.oldLine ?? ''}</span>
+                  <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-300 select-none">{line.newLine ?? ''}</span>
+                  <span className={`w-4 flex-shrink-0 select-none ${style.text}`}>{style.sign}</span>
+                  <span className={`whitespace-pre-wrap break-words pr-4 ${style.text}`}>{line.text || ' '}</span>
+                </div>
+              );
+            })
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
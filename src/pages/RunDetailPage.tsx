@@ -0,0 +1,217 @@
+import { useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useQuery } from '../hooks/useQuery';
+import { useRunWatcher } from '../hooks/useRunWatcher';
+import { fetchPipelineStatus, queryKeys } from '../lib/api';
+import type { Trace } from '../lib/types';
+import { STAGES, STAGE_COLORS, RUN_END_STAGES, failedStage, formatDatetime } from '../lib/utils';
+import { otlpBlob, otlpFilename } from '../lib/otlp';
+import { downloadBlob } from '../lib/export';
+import StageBadge from '../components/StageBadge';
+import ResumeRunButton from '../components/ResumeRunButton';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ErrorNotice from '../components/ErrorNotice';
+
+type StepState = 'done' | 'current' | 'failed' | 'pending';
+
+export default function RunDetailPage() {
+  const { runId } = useParams<{ runId: string }>();
+  const navigate = useNavigate();
+  const { watch } = useRunWatcher();
+
+  const { data: status, error, refetch } = useQuery(
+    runId ? queryKeys.pipelineStatus(runId) : null,
+    (signal) => fetchPipelineStatus(runId!, { signal }),
+  );
+  const stage = status?.content.stage;
+  const live = !!stage && !RUN_END_STAGES.includes(stage);
+
+  // The watcher polls this run's status into the cache until it stops, and announces
+  // the finish even if this page has been left by then
+  useEffect(() => {
+    if (runId && live) watch(runId, status?.content.title);
+  }, [runId, live, status?.content.title, watch]);
+
+  if (!status) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+
+  const { content } = status;
+  const traces = [...status.traces].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  const failedAt = content.stage === 'failed' ? failedStage(traces) || traces[traces.length - 1]?.stage : null;
+  const steps = stepStates(content.stage, failedAt ?? null);
+  const handleExport = () => {
+    const lastError = [...traces].reverse().find((t) => t.status === 'error');
+    const run = {
+      id: runId!,
+      site_id: content.site_id,
+      content_id: content.id,
+      topic_id: content.topic_id,
+      title: content.title,
+      status: live ? 'running' : content.stage === 'failed' ? 'error' : 'success',
+      error_message: lastError?.error_message ?? null,
+      traces,
+    };
+    downloadBlob(otlpBlob([run]), otlpFilename(runId!));
+  };
+  const totals = {
+    tokens: traces.reduce((sum, t) => sum + (t.total_tokens || 0), 0),
+    latency: traces.reduce((sum, t) => sum + (t.latency_ms || 0), 0),
+    cost: traces.reduce((sum, t) => sum + (t.estimated_cost_usd || 0), 0),
+  };
+
+  return (
+    <div className="space-y-4">
+      <button onClick={() => navigate(-1)} className="text-sm text-gray-400 hover:text-gray-600 transition flex items-center gap-1">
+        <span>←</span> Back
+      </button>
+
+      {/* Header */}
+      <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-900 truncate">{content.title || 'Untitled'}</h1>
+            <p className="text-xs text-gray-400 mt-0.5 font-mono">{runId}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {live ? (
+              <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                Live
+              </span>
+            ) : (
+              <StageBadge stage={content.stage} size="md" />
+            )}
+            {content.topic_id && (
+              <Link to={`/runs/compare?a=${runId}`} className="text-sm text-gray-500 hover:text-gray-700 transition">
+                ⇄ Compare
+              </Link>
+            )}
+            <Link to={`/content/${content.id}`} className="text-sm text-gray-500 hover:text-gray-700 transition">
+              Open content →
+            </Link>
+          </div>
+        </div>
+
+        {/* Stage track */}
+        <ol className="mt-6 flex items-start overflow-x-auto pb-1">
+          {STAGES.map((s, i) => (
+            <li key={s} className="flex-1 min-w-[72px] flex flex-col items-center relative">
+              {i > 0 && (
+                <span className={`absolute top-3 right-1/2 w-full h-0.5 ${steps[s] === 'pending' ? 'bg-gray-100' : 'bg-gray-300'}`} />
+              )}
+              <StepDot stage={s} state={steps[s]} />
+              <span className={`mt-1.5 text-[11px] capitalize ${steps[s] === 'pending' ? 'text-gray-300' : 'text-gray-600'}`}>{s}</span>
+            </li>
+          ))}
+        </ol>
+
+        {content.stage === 'failed' && runId && (
+          <div className="mt-4 flex justify-end">
+            <ResumeRunButton runId={runId} siteId={content.site_id} title={content.title} traces={traces} />
+          </div>
+        )}
+
+        {content.stage === 'review' && (
+          <div className="mt-4 flex justify-end">
+            <Link
+              to={`/content/${content.id}/review`}
+              className="px-4 py-1.5 text-sm font-medium bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition"
+            >
+              ✏ Review Article
+            </Link>
+          </div>
+        )}
+      </div>
+
+      {/* Traces */}
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+        <div className="px-4 sm:px-6 py-3 border-b border-gray-100 flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-medium text-gray-900">Traces</h2>
+          <div className="flex items-center gap-4 text-xs text-gray-500 tabular-nums">
+            <span>{totals.tokens.toLocaleString()} tokens</span>
+            <span>{(totals.latency / 1000).toFixed(1)}s</span>
+            <span>${totals.cost.toFixed(4)}</span>
+            {traces.length > 0 && (
+              <button onClick={handleExport} className="text-gray-400 hover:text-gray-700 transition" title="Download as OpenTelemetry (OTLP/JSON) spans">
+                Export OTLP
+              </button>
+            )}
+          </div>
+        </div>
+        {traces.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-400 text-center">{live ? 'Waiting for the first stage to finish…' : 'No traces recorded'}</p>
+        ) : (
+          <ul className="divide-y divide-gray-50">
+            {traces.map((trace) => <TraceRow key={trace.id} trace={trace} />)}
+            {live && (
+              <li className="px-4 sm:px-6 py-3 text-xs text-gray-400 flex items-center gap-2">
+                <span className="w-3 h-3 border-2 border-gray-200 border-t-gray-800 rounded-full animate-spin" />
+                <span className="capitalize">{content.stage}</span> in progress…
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function stepStates(stage: string, failedStage: string | null): Record<string, StepState> {
+  const stopAt = failedStage ?? stage;
+  const index = STAGES.indexOf(stopAt as (typeof STAGES)[number]);
+  return Object.fromEntries(STAGES.map((s, i) => {
+    if (failedStage && s === failedStage) return [s, 'failed'];
+    if (i < index) return [s, 'done'];
+    // Review and later are resting places rather than work in progress
+    if (i === index) return [s, RUN_END_STAGES.includes(s) ? 'done' : 'current'];
+    return [s, 'pending'];
+  }));
+}
+
+// ============================================================
+// Stage track dot
+// ============================================================
+
+function StepDot({ stage, state }: { stage: string; state: StepState }) {
+  const colors = STAGE_COLORS[stage] || STAGE_COLORS.failed;
+  if (state === 'failed') {
+    return <span className="relative w-6 h-6 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">✕</span>;
+  }
+  if (state === 'done') {
+    return <span className={`relative w-6 h-6 rounded-full ${colors.dot} text-white text-xs flex items-center justify-center`}>✓</span>;
+  }
+  if (state === 'current') {
+    return (
+      <span className="relative w-6 h-6 flex items-center justify-center">
+        <span className={`absolute inset-0 rounded-full ${colors.dot} opacity-30 animate-ping`} />
+        <span className={`relative w-4 h-4 rounded-full ${colors.dot}`} />
+      </span>
+    );
+  }
+  return <span className="relative w-6 h-6 rounded-full bg-white border-2 border-gray-200" />;
+}
+
+// ============================================================
+// Trace row
+// ============================================================
+
+function TraceRow({ trace }: { trace: Trace }) {
+  const colors = STAGE_COLORS[trace.stage] || STAGE_COLORS.failed;
+  const failed = trace.status === 'error';
+  return (
+    <li className="px-4 sm:px-6 py-3 animate-trace-in">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className={`px-2 py-0.5 text-xs rounded-md font-medium ${colors.bg} ${colors.text} capitalize`}>{trace.stage}</span>
+        <span className="text-xs text-gray-500 font-mono">{trace.provider}/{trace.model}</span>
+        <span className={`text-xs font-medium ${failed ? 'text-red-600' : 'text-green-600'}`}>{trace.status}</span>
+        <div className="flex-1" />
+        <div className="flex gap-4 text-xs text-gray-500 tabular-nums">
+          <span>{(trace.total_tokens || 0).toLocaleString()} tokens</span>
+          <span>{((trace.latency_ms || 0) / 1000).toFixed(1)}s</span>
+          <span>${(trace.estimated_cost_usd || 0).toFixed(4)}</span>
+          <span className="hidden sm:inline">{formatDatetime(trace.created_at)}</span>
+        </div>
+      </div>
+      {trace.error_message && <p className="mt-1.5 text-xs text-red-600 break-words">{trace.error_message}</p>}
+    </li>
+  );
+}
@@ -1,125 +1,222 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useSites } from '../hooks/useSites';
-import { fetchContent, fetchTraces } from '../lib/api';
-import type { Content, Trace } from '../lib/types';
-import { STAGE_COLORS, formatDatetime } from '../lib/utils';
+import { useQuery } from '../hooks/useQuery';
+import { useInfiniteQuery } from '../hooks/useInfiniteQuery';
+import { useToast } from '../hooks/useToast';
+import { fetchRuns, queryKeys, type RunFilters } from '../lib/api';
+import type { PipelineRun } from '../lib/types';
+import { STAGE_COLORS, RUN_STATUS_COLORS, formatDatetime } from '../lib/utils';
+import { loadRunsForExport, otlpBlob, otlpFilename } from '../lib/otlp';
+import { downloadBlob } from '../lib/export';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
+import LoadMore from '../components/LoadMore';
 
-interface RunGroup {
-  runId: string;
-  contentId: string;
-  title: string;
-  traces: Trace[];
-  totalTokens: number;
-  totalLatency: number;
-  totalCost: number;
-  stages: string[];
-  status: string;
-  createdAt: string;
+const PAGE_SIZE = 25;
+
+const STATUSES = ['running', 'success', 'error'];
+
+// One request per status, all in flight together; only the totals are used
+async function loadStatusCounts(siteId: string, filters: RunFilters, signal: AbortSignal): Promise<Record<string, number | null>> {
+  const pages = await Promise.all(STATUSES.map((status) => fetchRuns(siteId, { ...filters, status }, null, 1, { signal })));
+  return Object.fromEntries(STATUSES.map((status, i) => [status, pages[i].total]));
 }
 
 export default function RunsPage() {
   const { selectedSite } = useSites();
-  const [runs, setRuns] = useState<RunGroup[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const siteId = selectedSite?.id;
+  const { showToast, showError } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const filters: RunFilters = {
+    status: searchParams.get('status') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+  };
+  const dateRange = { from: filters.from, to: filters.to };
 
-  useEffect(() => {
+  const { data, error, refetch, hasNextPage, fetchNextPage, loadingMore, moreError } = useInfiniteQuery(
+    siteId ? queryKeys.runs(siteId, filters) : null,
+    (cursor, signal) => fetchRuns(siteId!, filters, cursor, PAGE_SIZE, { signal }),
+    (page) => page.next_cursor,
+  );
+  // Counts only depend on the date range, so switching status pills doesn't reload them
+  const { data: counts } = useQuery(
+    siteId ? queryKeys.runs(siteId, { counts: dateRange }) : null,
+    (signal) => loadStatusCounts(siteId!, dateRange, signal),
+  );
+
+  const setFilter = (name: keyof RunFilters, value: string | undefined) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    setSearchParams(next);
+  };
+
+  // Exports every run matching the filters, not just the pages loaded so far
+  const handleExport = async () => {
     if (!selectedSite) return;
-    setLoading(true);
-    fetchContent(selectedSite.id, undefined, 50)
-      .then(async (contentList) => {
-        const withRuns = contentList.filter((c) => c.run_id);
-        const groups: RunGroup[] = [];
-
-        // Fetch traces for each unique run_id (limit to 10 most recent)
-        const uniqueRuns = [...new Map(withRuns.map((c) => [c.run_id, c])).values()].slice(0, 10);
-
-        for (const content of uniqueRuns) {
-          try {
-            const traces = await fetchTraces(content.run_id!);
-            const sorted = traces.sort((a, b) => new Date(a.created_at || '').getTime() - new Date(b.created_at || '').getTime());
-            groups.push({
-              runId: content.run_id!,
-              contentId: content.id,
-              title: content.title || 'Untitled',
-              traces: sorted,
-              totalTokens: traces.reduce((s, t) => s + (t.total_tokens || 0), 0),
-              totalLatency: traces.reduce((s, t) => s + (t.latency_ms || 0), 0),
-              totalCost: traces.reduce((s, t) => s + (t.estimated_cost_usd || 0), 0),
-              stages: sorted.map((t) => t.stage),
-              status: sorted.every((t) => t.status === 'success') ? 'success' : sorted.some((t) => t.status === 'error') ? 'error' : 'running',
-              createdAt: sorted[0]?.created_at || content.created_at || '',
-            });
-          } catch {}
-        }
-        setRuns(groups);
-      })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [selectedSite]);
-
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+    setExporting(true);
+    try {
+      const runs = await loadRunsForExport(selectedSite.id, filters);
+      downloadBlob(otlpBlob(runs), otlpFilename(selectedSite.domain || selectedSite.id));
+      showToast({ tone: 'success', title: `Exported ${runs.length} run${runs.length === 1 ? '' : 's'}` });
+    } catch (e: unknown) {
+      showError(e, { title: 'Export failed', onRetry: handleExport });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!data) return error ? <ErrorNotice error={error} onRetry={refetch} /> : <LoadingSpinner />;
+
+  const runs = data.pages.flatMap((page) => page.runs);
+  const total = data.pages[0]?.total ?? null;
+  const filtered = !!(filters.status || filters.from || filters.to);
 
   return (
     <div className="space-y-4">
-      <h1 className="text-lg font-semibold text-gray-900">Pipeline Runs</h1>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-baseline gap-2">
+          <h1 className="text-lg font-semibold text-gray-900">Pipeline Runs</h1>
+          {total !== null && <span className="text-xs text-gray-400 tabular-nums">{total.toLocaleString()}</span>}
+        </div>
+        {runs.length > 0 && (
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition"
+            title="Download the runs matching these filters as OpenTelemetry (OTLP/JSON) spans"
+          >
+            {exporting ? 'Exporting…' : 'Export OTLP'}
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        {[undefined, ...STATUSES].map((status) => (
+          <button
+            key={status || 'all'}
+            onClick={() => setFilter('status', status)}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition capitalize ${
+              filters.status === status ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            {status || 'All'}
+            {status && counts?.[status] != null && <span className="ml-1.5 text-xs opacity-60 tabular-nums">{counts[status]}</span>}
+          </button>
+        ))}
+        <div className="flex items-center gap-1.5 sm:ml-auto text-xs text-gray-500">
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => setFilter('from', e.target.value || undefined)}
+            aria-label="Started on or after"
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => setFilter('to', e.target.value || undefined)}
+            aria-label="Started on or before"
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-900"
+          />
+        </div>
+      </div>
+
       {runs.length === 0 ? (
-        <EmptyState icon="▸" title="No pipeline runs" description="Run a pipeline from the Topics page to see results here" />
+        filtered ? (
+          <EmptyState icon="▸" title="No runs match these filters" />
+        ) : (
+          <EmptyState icon="▸" title="No pipeline runs" description="Run a pipeline from the Topics page to see results here" />
+        )
       ) : (
         <div className="space-y-3">
           {runs.map((run) => (
-            <div
-              key={run.runId}
-              className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5 hover:border-gray-300 transition cursor-pointer"
-              onClick={() => navigate(`/content/${run.contentId}`)}
-            >
-              <div className="flex items-start justify-between gap-4 mb-3">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-900">{run.title}</h3>
-                  <p className="text-xs text-gray-400 mt-0.5 font-mono">{run.runId.slice(0, 8)}...</p>
-                </div>
-                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
-                  run.status === 'success' ? 'bg-green-50 text-green-700' :
-                  run.status === 'error' ? 'bg-red-50 text-red-700' :
-                  'bg-yellow-50 text-yellow-700'
-                }`}>
-                  {run.status}
-                </span>
-              </div>
+            // Runs that never produced content have no status to follow
+            <RunCard key={run.id} run={run} onOpen={run.content_id ? () => navigate(`/runs/${run.id}`) : undefined} />
+          ))}
+        </div>
+      )}
 
-              {/* Stage flow */}
-              <div className="flex items-center gap-1 mb-3 overflow-x-auto">
-                {run.traces.map((trace, i) => {
-                  const colors = STAGE_COLORS[trace.stage] || STAGE_COLORS.failed;
-                  return (
-                    <div key={trace.id} className="flex items-center">
-                      <span className={`px-2 py-0.5 text-xs rounded-md font-medium ${colors.bg} ${colors.text} capitalize whitespace-nowrap`}>
-                        {trace.stage}
-                      </span>
-                      {i < run.traces.length - 1 && (
-                        <span className="text-gray-300 mx-0.5 text-xs">→</span>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
+      {runs.length > 0 && (
+        <LoadMore
+          hasMore={hasNextPage}
+          loading={loadingMore}
+          error={moreError}
+          loaded={runs.length}
+          total={total}
+          onLoadMore={fetchNextPage}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// Run card
+// ============================================================
+
+function RunCard({ run, onOpen }: { run: PipelineRun; onOpen?: () => void }) {
+  const statusColors = RUN_STATUS_COLORS[run.status] || RUN_STATUS_COLORS.running;
+  const failedStage = run.status === 'error' ? run.stages[run.stages.length - 1] : null;
 
-              {/* Stats */}
-              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 sm:gap-x-6 text-xs text-gray-500">
-                <span>{run.totalTokens.toLocaleString()} tokens</span>
-                <span>{(run.totalLatency / 1000).toFixed(1)}s total</span>
-                <span>${run.totalCost.toFixed(4)}</span>
-                <span>{formatDatetime(run.createdAt)}</span>
+  return (
+    <div
+      className={`bg-white border border-gray-200 rounded-xl p-4 sm:p-5 transition ${onOpen ? 'hover:border-gray-300 cursor-pointer' : ''}`}
+      onClick={onOpen}
+    >
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-gray-900 truncate">{run.title || 'Untitled'}</h3>
+          <p className="text-xs text-gray-400 mt-0.5 font-mono">
+            {run.id}
+            {!run.content_id && <span className="font-sans ml-2">· no content</span>}
+          </p>
+        </div>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${statusColors.bg} ${statusColors.text}`}>
+          {run.status === 'running' && run.current_stage ? `${run.current_stage}…` : run.status}
+        </span>
+      </div>
+
+      {/* Stage flow */}
+      {run.stages.length > 0 && (
+        <div className="flex items-center gap-1 mb-3 overflow-x-auto">
+          {run.stages.map((stage, i) => {
+            const failed = i === run.stages.length - 1 && stage === failedStage;
+            const colors = failed ? STAGE_COLORS.failed : STAGE_COLORS[stage] || STAGE_COLORS.failed;
+            return (
+              <div key={`${stage}-${i}`} className="flex items-center">
+                <span className={`px-2 py-0.5 text-xs rounded-md font-medium ${colors.bg} ${colors.text} capitalize whitespace-nowrap`}>
+                  {stage}
+                </span>
+                {i < run.stages.length - 1 && (
+                  <span className="text-gray-300 mx-0.5 text-xs">→</span>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
+
+      {run.error_message && (
+        <p className="text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2 mb-3 break-words">{run.error_message}</p>
+      )}
+
+      {/* Stats */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 sm:gap-x-6 text-xs text-gray-500">
+        <span>{run.total_tokens.toLocaleString()} tokens</span>
+        <span>{(run.total_latency_ms / 1000).toFixed(1)}s total</span>
+        <span>${run.total_cost_usd.toFixed(4)}</span>
+        <span>{formatDatetime(run.started_at)}</span>
+        {run.finished_at && <span>finished {formatDatetime(run.finished_at)}</span>}
+      </div>
     </div>
   );
 }
@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { useSites } from '../hooks/useSites';
-import { fetchTopics, fetchPillars, createTopic, createPillar, suggestSources, runPipeline } from '../lib/api';
+import { useToast } from '../hooks/useToast';
+import { useQuery } from '../hooks/useQuery';
+import { useFocusParam } from '../hooks/useFocusParam';
+import { useRunWatcher } from '../hooks/useRunWatcher';
+import { useBudget } from '../hooks/useBudget';
+import { fetchTopics, fetchPillars, createTopic, createPillar, suggestSources, runPipeline, queryKeys } from '../lib/api';
 import type { Topic, Pillar, SourceSuggestion } from '../lib/types';
-import { TOPIC_STATUS_COLORS, formatDate, parseJSON } from '../lib/utils';
+import { errorMessage } from '../lib/errors';
+import { budgetWarning } from '../lib/budget';
+import { TOPIC_STATUS_COLORS, formatDate } from '../lib/utils';
 import LoadingSpinner from '../components/LoadingSpinner';
 import EmptyState from '../components/EmptyState';
+import ErrorNotice from '../components/ErrorNotice';
 
 const TONES = ['positive', 'neutral', 'negative', 'contrarian'] as const;
 const STYLES = ['technical', 'narrative', 'sarcastic', 'editorial', 'how-to'] as const;
@@ -17,41 +26,46 @@ const LENGTHS = [
 
 export default function TopicsPage() {
   const { selectedSite } = useSites();
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [pillars, setPillars] = useState<Pillar[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { showError } = useToast();
+  const { watch } = useRunWatcher();
+  const { status: budget, runCostMicros } = useBudget(selectedSite);
   const [showForm, setShowForm] = useState(false);
   const [runningTopic, setRunningTopic] = useState<string | null>(null);
   const [runResult, setRunResult] = useState<{ topicId: string; runId: string } | null>(null);
 
-  useEffect(() => {
-    if (!selectedSite) return;
-    setLoading(true);
-    Promise.all([
-      fetchTopics(selectedSite.id),
-      fetchPillars(selectedSite.id),
-    ])
-      .then(([t, p]) => { setTopics(t); setPillars(p); })
-      .catch((e) => setError(e.message))
-      .finally(() => setLoading(false));
-  }, [selectedSite]);
+  const siteId = selectedSite?.id;
+  const topicsQuery = useQuery(
+    siteId ? queryKeys.topics(siteId) : null,
+    (signal) => fetchTopics(siteId!, { signal }),
+  );
+  const pillarsQuery = useQuery(
+    siteId ? queryKeys.pillars(siteId) : null,
+    (signal) => fetchPillars(siteId!, { signal }),
+  );
+  const focusedId = useFocusParam('topic', !!topicsQuery.data);
 
   const handleRunPipeline = async (topic: Topic) => {
     if (!selectedSite) return;
+    const warning = budgetWarning(budget, runCostMicros, 'pipeline run');
+    if (warning && !confirm(warning)) return;
     setRunningTopic(topic.id);
     try {
       const result = await runPipeline(topic.id, selectedSite!.id);
       setRunResult({ topicId: topic.id, runId: result.run_id });
-    } catch (e: any) {
-      alert(`Pipeline error: ${e.message}`);
+      watch(result.run_id, topic.title);
+    } catch (e: unknown) {
+      showError(e, { title: 'Pipeline error', onRetry: () => handleRunPipeline(topic) });
     } finally {
       setRunningTopic(null);
     }
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <div className="text-red-500 text-sm text-center py-8">{error}</div>;
+  const error = topicsQuery.error || pillarsQuery.error;
+  if (!topicsQuery.data || !pillarsQuery.data) {
+    return error ? <ErrorNotice error={error} onRetry={() => { topicsQuery.refetch(); pillarsQuery.refetch(); }} /> : <LoadingSpinner />;
+  }
+  const topics = topicsQuery.data;
+  const pillars = pillarsQuery.data;
 
   return (
     <div className="space-y-4">
@@ -69,9 +83,9 @@ export default function TopicsPage() {
         <NewTopicForm
           siteId={selectedSite.id}
           pillars={pillars}
-          onPillarsChange={setPillars}
+          onPillarsChange={(next) => pillarsQuery.setData(() => next)}
           onCreated={(topic) => {
-            setTopics([topic, ...topics]);
+            topicsQuery.setData((prev) => [topic, ...(prev || [])]);
             setShowForm(false);
           }}
         />
@@ -83,10 +97,14 @@ export default function TopicsPage() {
         <div className="space-y-2">
           {topics.map((topic) => {
             const statusColors = TOPIC_STATUS_COLORS[topic.status] || TOPIC_STATUS_COLORS.idea;
-            const keywords = parseJSON<string[]>(topic.target_keywords);
+            const keywords = topic.target_keywords;
             const canRun = ['approved', 'idea'].includes(topic.status);
             return (
-              <div key={topic.id} className="bg-white border border-gray-200 rounded-xl p-4">
+              <div
+                key={topic.id}
+                id={`topic-${topic.id}`}
+                className={`bg-white border rounded-xl p-4 ${topic.id === focusedId ? 'border-gray-900 ring-2 ring-gray-900/10' : 'border-gray-200'}`}
+              >
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1 flex-wrap">
@@ -111,7 +129,7 @@ export default function TopicsPage() {
                       <span>Priority: {topic.priority}</span>
                       {topic.scheduled_at && <span>Scheduled: {formatDate(topic.scheduled_at)}</span>}
                     </div>
-                    {keywords && keywords.length > 0 && (
+                    {keywords.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-2">
                         {keywords.map((kw: string) => (
                           <span key={kw} className="px-2 py-0.5 text-xs bg-gray-50 text-gray-500 rounded">{kw}</span>
@@ -119,9 +137,13 @@ export default function TopicsPage() {
                       </div>
                     )}
                     {runResult?.topicId === topic.id && (
-                      <div className="mt-2 px-3 py-2 bg-green-50 text-green-700 text-xs rounded-lg">
-                        ✓ Pipeline started — Run ID: {runResult.runId}
-                      </div>
+                      <Link
+                        to={`/runs/${runResult.runId}`}
+                        className="mt-2 flex items-center justify-between gap-2 px-3 py-2 bg-green-50 text-green-700 text-xs rounded-lg hover:bg-green-100 transition"
+                      >
+                        <span>✓ Pipeline started — Run ID: {runResult.runId}</span>
+                        <span className="font-medium whitespace-nowrap">Watch live →</span>
+                      </Link>
                     )}
                   </div>
                   {canRun && (
@@ -272,8 +294,8 @@ function NewTopicForm({
       setShowNewPillar(false);
       setNewPillarName('');
       setNewPillarDesc('');
-    } catch (e: any) {
-      setError(`Failed to create pillar: ${e.message}`);
+    } catch (e: unknown) {
+      setError(`Failed to create pillar: ${errorMessage(e)}`);
     } finally {
       setCreatingPillar(false);
     }
@@ -324,7 +346,7 @@ function NewTopicForm({
         title: form.title,
         description: form.description,
         angle: form.angle,
-        target_keywords: '[]',
+        target_keywords: [],
         content_type: form.content_type,
         status: form.status || 'idea',
         priority: form.priority,
@@ -334,8 +356,8 @@ function NewTopicForm({
         style: form.style,
         target_length: form.target_length,
       });
-    } catch (e: any) {
-      setError(e.message);
+    } catch (e: unknown) {
+      setError(errorMessage(e));
     } finally {
       setSubmitting(false);
     }